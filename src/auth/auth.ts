@@ -1,4 +1,8 @@
-import { UserAccessTokenScopeSchema, type AppAccessToken, type UserAccessToken, type UserAccessTokenScope } from "./types.js"
+import { UserAccessTokenScopeSchema, type AppAccessToken, type OpenIDClaimsRequest, type UserAccessToken, type UserAccessTokenScope } from "./types.js"
+import type { TokenStorage } from "./store.js"
+import { wait } from "../utils/async.js"
+import { EventEmitter } from "../utils/events.js"
+import { getDefaultOAuthHttpClient, isSuccessfulResponse, type OAuthHttpClient, type OAuthHttpResponse } from "./http.js"
 import { z } from "zod"
 
 // Zod schemas for OAuth response validation
@@ -8,6 +12,7 @@ const TokenResponseSchema = z.object({
     token_type: z.string(),
     refresh_token: z.string().optional(),
     scope: z.union([z.array(z.string()), z.string()]).optional(),
+    id_token: z.string().optional(),
 })
 
 const DeviceCodeResponseSchema = z.object({
@@ -45,6 +50,104 @@ export function generateAntiCSRFToken() {
     return crypto.getRandomValues(new Uint8Array(16)).reduce((str, byte) => str + byte.toString(16).padStart(2, '0'), '')
 }
 
+/**
+ * Revokes an access token via the Twitch OAuth revocation endpoint. Tokens that are already invalid count as revoked.
+ */
+async function revokeToken(httpClient: OAuthHttpClient, clientID: string, accessToken: string): Promise<void> {
+    if (!clientID) {
+        throw new Error("Client ID is required to revoke an access token")
+    }
+    const response = await httpClient.fetch({
+        method: 'POST',
+        path: '/oauth2/revoke',
+        form: {
+            client_id: clientID,
+            token: accessToken,
+        },
+    })
+    if (!isSuccessfulResponse(response)) {
+        if (response.status === 400) {
+            const parsed = ErrorResponseSchema.safeParse(response.body)
+            if (parsed.success && parsed.data.message === 'Invalid token') {
+                return
+            }
+        }
+        throw new Error(`Failed to revoke access token: ${response.status} ${response.statusText}`)
+    }
+}
+
+/**
+ * Appends the OpenID Connect parameters to an authorization URL. A nonce is generated when the `openid` scope is requested without one, so the ID token can be tied to this authorization request.
+ */
+function appendOpenIDParams(url: URL, scopes: UserAccessTokenScope[], nonce: string | undefined, claims: OpenIDClaimsRequest | undefined): string | undefined {
+    if (!scopes.includes('openid')) {
+        if (nonce !== undefined || claims !== undefined) {
+            throw new Error("The openid scope is required to request a nonce or claims")
+        }
+        return undefined
+    }
+    nonce ??= generateAntiCSRFToken()
+    url.searchParams.append('nonce', nonce)
+    if (claims) {
+        url.searchParams.append('claims', JSON.stringify(claims))
+    }
+    return nonce
+}
+
+/**
+ * Returns the error to throw for a failed refresh request. Twitch answers 400 when the refresh token itself was rejected, e.g. because it was revoked, rotated or expired, which no retry can fix.
+ */
+function getRefreshError(response: OAuthHttpResponse): Error {
+    if (response.status === 400) {
+        const parsed = ErrorResponseSchema.safeParse(response.body)
+        const reason = parsed.success ? parsed.data.message : `${response.status} ${response.statusText}`
+        return new ReauthorizationRequiredError(`Refresh token was rejected (${reason}); the user needs to authorize the application again`)
+    }
+    return new Error(`Failed to refresh access token: ${response.status} ${response.statusText}`)
+}
+
+/**
+ * Validates a user access token with Twitch's validation endpoint. Returns null if Twitch rejected it.
+ */
+async function fetchTokenValidation(httpClient: OAuthHttpClient, token: UserAccessToken): Promise<z.infer<typeof ValidationResponseSchema> | null> {
+    const response = await httpClient.fetch({
+        method: 'GET',
+        path: '/oauth2/validate',
+        headers: {
+            'Authorization': `Bearer ${token.accessToken}`,
+        },
+    })
+    if (!isSuccessfulResponse(response)) {
+        return null
+    }
+    return ValidationResponseSchema.parse(response.body)
+}
+
+/**
+ * Copies the user, scopes and expiry reported by the validation endpoint onto a token. Scopes this library doesn't know are dropped. Returns whether anything changed.
+ */
+function applyValidationResponse(token: UserAccessToken, validation: z.infer<typeof ValidationResponseSchema>): boolean {
+    const previous = JSON.stringify([token.clientID, token.userID, token.login, token.scopes, token.expiry])
+    token.clientID = validation.client_id
+    if (validation.user_id !== undefined) {
+        token.userID = validation.user_id
+    }
+    if (validation.login !== undefined) {
+        token.login = validation.login
+    }
+    if (validation.scopes) {
+        token.scopes = validation.scopes.flatMap(scope => {
+            const parsed = UserAccessTokenScopeSchema.safeParse(scope)
+            return parsed.success ? [parsed.data] : []
+        })
+    }
+    // Tokens that don't expire are reported with an expiry of 0
+    if (validation.expires_in) {
+        token.expiry = Date.now() + validation.expires_in * 1000
+    }
+    return JSON.stringify([token.clientID, token.userID, token.login, token.scopes, token.expiry]) !== previous
+}
+
 function isBrowser() {
     // @ts-expect-error Node, Bun and Deno define global variables that browser environments do not have
     return (typeof window !== 'undefined' && typeof window.document !== 'undefined' && typeof process === 'undefined' && typeof Bun === 'undefined' && typeof Deno === 'undefined')
@@ -52,8 +155,13 @@ function isBrowser() {
 
 interface BaseAccessTokenFlowStrategy<T extends UserAccessToken | AppAccessToken> {
     getClientID(): string
+    /**
+     * The client the strategy sends its OAuth requests with. Token providers validate tokens with it too unless they are given their own.
+     */
+    getHttpClient?(): OAuthHttpClient
     canRefreshAccessToken(expiredToken: T): boolean
     refreshAccessToken(expiredToken: T): Promise<T>
+    revokeAccessToken(token: T): Promise<void>
 }
 
 export interface UserAccessTokenFlowStrategy extends BaseAccessTokenFlowStrategy<UserAccessToken> {
@@ -72,10 +180,12 @@ export class ImplicitGrantFlowStrategy implements UserAccessTokenFlowStrategy {
     /**
      * @param clientID Your Twitch application's Client ID.
      * @param redirectURI Your Twitch application's Redirect URI. Required for most operations.
+     * @param httpClient The client to send OAuth requests with, e.g. to use a proxy or a mock OAuth server. Defaults to `fetch` against Twitch's OAuth server.
      */
     constructor(
         private readonly clientID: string,
         private readonly redirectURI: string | null,
+        private readonly httpClient: OAuthHttpClient = getDefaultOAuthHttpClient(),
     ) {
 
     }
@@ -84,6 +194,10 @@ export class ImplicitGrantFlowStrategy implements UserAccessTokenFlowStrategy {
         return this.clientID
     }
 
+    getHttpClient(): OAuthHttpClient {
+        return this.httpClient
+    }
+
     // Implicit Code Grant Flow:
     // 1. Generate authorization URL with client ID, redirect URI, scopes, and CSRF state
     // 2. Redirect user to authorization URL
@@ -92,12 +206,14 @@ export class ImplicitGrantFlowStrategy implements UserAccessTokenFlowStrategy {
     // 5. Extract access token from URL fragment
 
     /**
-     * Generates an authorization URL and anti-CSRF state token for the Implicit Code Grant Flow. Browser or server.
+     * Generates an authorization URL and anti-CSRF state token for the Implicit Code Grant Flow. Browser or server. When the `openid` scope is requested, Twitch also returns an ID token, and the nonce to verify it with is returned.
      */
-    generateAuthorizationUrl({ scopes, state, forceVerify }: {
+    generateAuthorizationUrl({ scopes, state, forceVerify, nonce, claims }: {
         scopes: UserAccessTokenScope[]
         state?: string
         forceVerify?: boolean
+        nonce?: string
+        claims?: OpenIDClaimsRequest
     }) {
         if (!this.clientID) {
             throw new Error("Client ID is required for Implicit Code Grant Flow")
@@ -106,19 +222,21 @@ export class ImplicitGrantFlowStrategy implements UserAccessTokenFlowStrategy {
             throw new Error("Redirect URI is required for Implicit Code Grant Flow")
         }
         state ??= generateAntiCSRFToken()
-        const url = new URL('https://id.twitch.tv/oauth2/authorize')
+        const url = new URL('/oauth2/authorize', this.httpClient.baseUrl)
         url.searchParams.append('client_id', this.clientID)
         if (forceVerify) {
             url.searchParams.append('force_verify', 'true')
         }
         url.searchParams.append('redirect_uri', this.redirectURI)
-        url.searchParams.append('response_type', 'token')
+        url.searchParams.append('response_type', scopes.includes('openid') ? 'token id_token' : 'token')
         url.searchParams.append('scope', scopes.join(' '))
         url.searchParams.append('state', state)
+        const openIDNonce = appendOpenIDParams(url, scopes, nonce, claims)
 
         return {
             url: url.toString(),
             state,
+            nonce: openIDNonce,
         }
     }
 
@@ -133,7 +251,7 @@ export class ImplicitGrantFlowStrategy implements UserAccessTokenFlowStrategy {
         }
         const parsedUrl = new URL(url)
         // Validate that the URL is a Twitch authorization URL to prevent redirect hijacking
-        if (parsedUrl.origin !== 'https://id.twitch.tv' || parsedUrl.pathname !== '/oauth2/authorize') {
+        if (parsedUrl.origin !== new URL(this.httpClient.baseUrl).origin || parsedUrl.pathname !== '/oauth2/authorize') {
             throw new Error("Invalid Twitch authorization URL")
         }
 
@@ -172,6 +290,7 @@ export class ImplicitGrantFlowStrategy implements UserAccessTokenFlowStrategy {
         const expiresIn = hashParams.get('expires_in')
         const scope = hashParams.get('scope')
         const state = hashParams.get('state')
+        const idToken = hashParams.get('id_token')
 
         // Verify state to prevent CSRF attacks
         if (state !== expectedState) {
@@ -190,6 +309,8 @@ export class ImplicitGrantFlowStrategy implements UserAccessTokenFlowStrategy {
                 expiry,
                 scopes,
                 refreshToken: null, // Implicit Grant Flow does not provide refresh tokens
+                clientID: this.clientID,
+                idToken: idToken ?? undefined,
             }
         } else {
             throw new Error("Invalid token response in URL fragment")
@@ -210,6 +331,14 @@ export class ImplicitGrantFlowStrategy implements UserAccessTokenFlowStrategy {
     async refreshAccessToken(expiredToken: UserAccessToken): Promise<UserAccessToken> {
         throw new Error("Implicit Grant Flow does not support token refresh")
     }
+
+    /**
+     * Revokes a user access token so it can no longer be used, e.g. when the user disconnects their account.
+     * @param token The user access token to revoke.
+     */
+    async revokeAccessToken(token: UserAccessToken): Promise<void> {
+        await revokeToken(this.httpClient, this.clientID, token.accessToken)
+    }
 }
 
 /**
@@ -221,11 +350,13 @@ export class AuthorizationCodeGrantFlowStrategy implements UserAccessTokenFlowSt
      * @param clientID Your Twitch application's Client ID.
      * @param clientSecret Your Twitch application's Client Secret. Required for most operations.
      * @param redirectURI Your Twitch application's Redirect URI. Required for most operations.
+     * @param httpClient The client to send OAuth requests with, e.g. to use a proxy or a mock OAuth server. Defaults to `fetch` against Twitch's OAuth server.
      */
     constructor(
         private readonly clientID: string,
         private readonly clientSecret: string | null,
         private readonly redirectURI: string | null,
+        private readonly httpClient: OAuthHttpClient = getDefaultOAuthHttpClient(),
     ) {
 
     }
@@ -234,6 +365,17 @@ export class AuthorizationCodeGrantFlowStrategy implements UserAccessTokenFlowSt
         return this.clientID
     }
 
+    getHttpClient(): OAuthHttpClient {
+        return this.httpClient
+    }
+
+    /**
+     * Retrieves the Redirect URI authorization codes are sent to, or null if none was configured.
+     */
+    getRedirectURI(): string | null {
+        return this.redirectURI
+    }
+
     // Authorization Code Grant Flow:
     // 1. Generate authorization URL with client ID, redirect URI, scopes, and CSRF state
     // 2. Redirect user to authorization URL
@@ -242,12 +384,14 @@ export class AuthorizationCodeGrantFlowStrategy implements UserAccessTokenFlowSt
     // 5. Exchange authorization code for access token and refresh token via API endpoint
 
     /**
-     * Generates an authorization URL and anti-CSRF state token for the Authorization Code Grant Flow. Browser or server.
+     * Generates an authorization URL and anti-CSRF state token for the Authorization Code Grant Flow. Browser or server. When the `openid` scope is requested, the token exchange also returns an ID token, and the nonce to verify it with is returned.
      */
-    generateAuthorizationUrl({ scopes, state, forceVerify }: {
+    generateAuthorizationUrl({ scopes, state, forceVerify, nonce, claims }: {
         scopes: UserAccessTokenScope[]
         state?: string
         forceVerify?: boolean
+        nonce?: string
+        claims?: OpenIDClaimsRequest
     }) {
         if (!this.clientID) {
             throw new Error("Client ID is required for Authorization Code Grant Flow")
@@ -256,7 +400,7 @@ export class AuthorizationCodeGrantFlowStrategy implements UserAccessTokenFlowSt
             throw new Error("Redirect URI is required for Authorization Code Grant Flow")
         }
         state ??= generateAntiCSRFToken()
-        const url = new URL('https://id.twitch.tv/oauth2/authorize')
+        const url = new URL('/oauth2/authorize', this.httpClient.baseUrl)
         url.searchParams.append('client_id', this.clientID)
         if (forceVerify) {
             url.searchParams.append('force_verify', 'true')
@@ -265,9 +409,11 @@ export class AuthorizationCodeGrantFlowStrategy implements UserAccessTokenFlowSt
         url.searchParams.append('response_type', 'code')
         url.searchParams.append('scope', scopes.join(' '))
         url.searchParams.append('state', state)
+        const openIDNonce = appendOpenIDParams(url, scopes, nonce, claims)
         return {
             url: url.toString(),
             state,
+            nonce: openIDNonce,
         }
     }
 
@@ -283,7 +429,7 @@ export class AuthorizationCodeGrantFlowStrategy implements UserAccessTokenFlowSt
         
         const parsedUrl = new URL(url)
         // Validate that the URL is a Twitch authorization URL to prevent redirect hijacking
-        if (parsedUrl.origin !== 'https://id.twitch.tv' || parsedUrl.pathname !== '/oauth2/authorize') {
+        if (parsedUrl.origin !== new URL(this.httpClient.baseUrl).origin || parsedUrl.pathname !== '/oauth2/authorize') {
             throw new Error("Invalid Twitch authorization URL")
         }
 
@@ -356,25 +502,21 @@ export class AuthorizationCodeGrantFlowStrategy implements UserAccessTokenFlowSt
         if (!this.redirectURI) {
             throw new Error("Redirect URI is required for Authorization Code Grant Flow")
         }
-        const url = new URL('https://id.twitch.tv/oauth2/token')
-        const body = new URLSearchParams()
-        body.append('client_id', this.clientID)
-        body.append('client_secret', this.clientSecret)
-        body.append('code', code)
-        body.append('grant_type', 'authorization_code')
-        body.append('redirect_uri', this.redirectURI)
-        const response = await fetch(url.toString(), {
+        const response = await this.httpClient.fetch({
             method: 'POST',
-            headers: {
-                'Content-Type': 'application/x-www-form-urlencoded',
+            path: '/oauth2/token',
+            form: {
+                client_id: this.clientID,
+                client_secret: this.clientSecret,
+                code,
+                grant_type: 'authorization_code',
+                redirect_uri: this.redirectURI,
             },
-            body: body.toString(),
         })
-        if (!response.ok) {
+        if (!isSuccessfulResponse(response)) {
             throw new Error(`Failed to exchange authorization code for token: ${response.status} ${response.statusText}`)
         }
-        const data = await response.json()
-        const parsed = TokenResponseSchema.parse(data)
+        const parsed = TokenResponseSchema.parse(response.body)
         if (parsed.token_type !== 'bearer') {
             throw new Error(`Invalid token type received: ${parsed.token_type}`)
         }
@@ -387,6 +529,8 @@ export class AuthorizationCodeGrantFlowStrategy implements UserAccessTokenFlowSt
             expiry,
             scopes,
             refreshToken,
+            clientID: this.clientID,
+            idToken: parsed.id_token,
         }
     }
 
@@ -415,24 +559,20 @@ export class AuthorizationCodeGrantFlowStrategy implements UserAccessTokenFlowSt
         if (!expiredToken.refreshToken) {
             throw new Error("Access token does not have a valid refresh token")
         }
-        const url = new URL('https://id.twitch.tv/oauth2/token')
-        const body = new URLSearchParams()
-        body.append('client_id', this.clientID)
-        body.append('client_secret', this.clientSecret)
-        body.append('grant_type', 'refresh_token')
-        body.append('refresh_token', expiredToken.refreshToken)
-        const response = await fetch(url.toString(), {
+        const response = await this.httpClient.fetch({
             method: 'POST',
-            headers: {
-                'Content-Type': 'application/x-www-form-urlencoded',
+            path: '/oauth2/token',
+            form: {
+                client_id: this.clientID,
+                client_secret: this.clientSecret,
+                grant_type: 'refresh_token',
+                refresh_token: expiredToken.refreshToken,
             },
-            body: body.toString(),
         })
-        if (!response.ok) {
-            throw new Error(`Failed to refresh access token: ${response.status} ${response.statusText}`)
+        if (!isSuccessfulResponse(response)) {
+            throw getRefreshError(response)
         }
-        const data = await response.json()
-        const parsed = TokenResponseSchema.parse(data)
+        const parsed = TokenResponseSchema.parse(response.body)
         if (parsed.token_type !== 'bearer') {
             throw new Error(`Invalid token type received: ${parsed.token_type}`)
         }
@@ -445,8 +585,67 @@ export class AuthorizationCodeGrantFlowStrategy implements UserAccessTokenFlowSt
             expiry,
             scopes,
             refreshToken,
+            clientID: this.clientID,
         }
     }
+
+    /**
+     * Revokes a user access token so it can no longer be used, e.g. when the user disconnects their account.
+     * @param token The user access token to revoke.
+     */
+    async revokeAccessToken(token: UserAccessToken): Promise<void> {
+        await revokeToken(this.httpClient, this.clientID, token.accessToken)
+    }
+}
+
+/**
+ * Thrown when the user denies the authorization request of a device code.
+ */
+export class DeviceCodeDeniedError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = "DeviceCodeDeniedError"
+    }
+}
+
+/**
+ * Thrown when a device code expires before the user authorizes it. Request a new device code to try again.
+ */
+export class DeviceCodeExpiredError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = "DeviceCodeExpiredError"
+    }
+}
+
+/**
+ * Why Twitch hasn't returned a token yet: the user hasn't authorized the device code, or the client is polling too fast
+ */
+export type DeviceCodePendingStatus = 'authorization_pending' | 'slow_down'
+
+export interface DeviceCodePollProgress {
+    status: DeviceCodePendingStatus
+    /**
+     * The number of the poll that was just made, starting at 1
+     */
+    attempt: number
+    /**
+     * The current polling interval in seconds, including any increase from `slow_down`
+     */
+    intervalSeconds: number
+    /**
+     * When the device code expires, as a Unix timestamp in milliseconds
+     */
+    expiresAt: number
+    /**
+     * The seconds left until the device code expires
+     */
+    remainingSeconds: number
+}
+
+export interface DeviceCodePollOptions {
+    signal?: AbortSignal | undefined
+    onProgress?: ((progress: DeviceCodePollProgress) => void) | undefined
 }
 
 /**
@@ -458,11 +657,13 @@ export class DeviceCodeGrantFlowStrategy implements UserAccessTokenFlowStrategy
      * @param clientID Your Twitch application's Client ID.
      * @param clientSecret Your Twitch application's Client Secret. Required for confidential clients, optional for public clients.
      * @param isConfidentialClient Whether your application is a confidential client (can securely store a client secret) or a public client (cannot securely store a client secret).
+     * @param httpClient The client to send OAuth requests with, e.g. to use a proxy or a mock OAuth server. Defaults to `fetch` against Twitch's OAuth server.
      */
     constructor(
         private readonly clientID: string,
         private readonly clientSecret: string | null,
         private readonly isConfidentialClient: boolean,
+        private readonly httpClient: OAuthHttpClient = getDefaultOAuthHttpClient(),
     ) {
 
     }
@@ -471,6 +672,10 @@ export class DeviceCodeGrantFlowStrategy implements UserAccessTokenFlowStrategy
         return this.clientID
     }
 
+    getHttpClient(): OAuthHttpClient {
+        return this.httpClient
+    }
+
     // Device Code Grant Flow:
     // 1. Request device code, user code, and verification URL via API endpoint with client ID and scopes
     // 2. Display user code and verification URL to user
@@ -485,17 +690,18 @@ export class DeviceCodeGrantFlowStrategy implements UserAccessTokenFlowStrategy
         if (!this.clientID) {
             throw new Error("Client ID is required for Device Code Grant Flow")
         }
-        const url = new URL('https://id.twitch.tv/oauth2/device')
-        url.searchParams.append('client_id', this.clientID)
-        url.searchParams.append('scopes', scopes.join(' '))
-        const response = await fetch(url.toString(), {
+        const response = await this.httpClient.fetch({
             method: 'POST',
+            path: '/oauth2/device',
+            query: {
+                client_id: this.clientID,
+                scopes: scopes.join(' '),
+            },
         })
-        if (!response.ok) {
+        if (!isSuccessfulResponse(response)) {
             throw new Error(`Failed to request device code: ${response.status} ${response.statusText}`)
         }
-        const data = await response.json()
-        const parsed = DeviceCodeResponseSchema.parse(data)
+        const parsed = DeviceCodeResponseSchema.parse(response.body)
         return {
             deviceCode: parsed.device_code,
             expiresIn: parsed.expires_in,
@@ -530,11 +736,21 @@ export class DeviceCodeGrantFlowStrategy implements UserAccessTokenFlowStrategy
     }
 
     /**
-     * Tries to retrieve a user access token using the device code via the Twitch OAuth token endpoint. Returns null if the user has not yet authorized the device code. You should call this method at the interval specified when requesting the device code until a token is returned or the device code expires.
+     * Tries to retrieve a user access token using the device code via the Twitch OAuth token endpoint. Returns null if the user has not yet authorized the device code. You should call this method at the interval specified when requesting the device code until a token is returned or the device code expires, or use {@link pollForToken} which also slows down when Twitch asks it to.
      * @param deviceCode The device code obtained from the requestDeviceCode method.
      * @param scopes The scopes to request for the user access token.
+     * @throws {DeviceCodeDeniedError} If the user denied the authorization.
+     * @throws {DeviceCodeExpiredError} If the device code expired or was already used.
      */
     async tryRetrieveTokenWithDeviceCode(deviceCode: string, scopes: UserAccessTokenScope[]) : Promise<UserAccessToken | null> {
+        const result = await this.requestTokenWithDeviceCode(deviceCode, scopes)
+        return typeof result === 'string' ? null : result
+    }
+
+    /**
+     * Requests a token with the device code, returning the pending status instead of the token while the user has not authorized the device code yet
+     */
+    private async requestTokenWithDeviceCode(deviceCode: string, scopes: UserAccessTokenScope[], signal?: AbortSignal): Promise<UserAccessToken | DeviceCodePendingStatus> {
         if (!this.clientID) {
             throw new Error("Client ID is required for Device Code Grant Flow")
         }
@@ -544,29 +760,37 @@ export class DeviceCodeGrantFlowStrategy implements UserAccessTokenFlowStrategy
         if (this.clientSecret && !this.isConfidentialClient) {
             throw new Error("Client Secret should not be provided for public clients in Device Code Grant Flow")
         }
-        const url = new URL('https://id.twitch.tv/oauth2/token')
-        const body = new URLSearchParams()
-        body.append('client_id', this.clientID)
+        const form: Record<string, string> = {
+            client_id: this.clientID,
+            scope: scopes.join(' '),
+            device_code: deviceCode,
+            grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+        }
         if (this.clientSecret && this.isConfidentialClient) {
-            body.append('client_secret', this.clientSecret)
+            form['client_secret'] = this.clientSecret
         }
-        body.append('scope', scopes.join(' '))
-        body.append('device_code', deviceCode)
-        body.append('grant_type', 'urn:ietf:params:oauth:grant-type:device_code')
-        const response = await fetch(url.toString(), {
+        const response = await this.httpClient.fetch({
             method: 'POST',
-            headers: {
-                'Content-Type': 'application/x-www-form-urlencoded',
-            },
-            body: body.toString(),
+            path: '/oauth2/token',
+            form,
+            signal,
         })
-        if (!response.ok) {
+        if (!isSuccessfulResponse(response)) {
             if (response.status === 400) {
-                const data = await response.json()
-                const parsed = ErrorResponseSchema.parse(data)
-                if (parsed.message === 'authorization_pending') {
+                const result = ErrorResponseSchema.safeParse(response.body)
+                if (!result.success) {
+                    throw new Error(`Failed to retrieve token with device code: 400 ${response.statusText} with an unexpected error body: ${JSON.stringify(response.body)}`)
+                }
+                const parsed = result.data
+                const message = parsed.message.toLowerCase()
+                if (message === 'authorization_pending' || message === 'slow_down') {
                     // User has not yet authorized the device code
-                    return null
+                    return message
+                } else if (message === 'access_denied') {
+                    throw new DeviceCodeDeniedError("The user denied the authorization request")
+                } else if (message === 'expired_token' || message === 'invalid device code') {
+                    // Twitch reports expired and already used device codes as invalid
+                    throw new DeviceCodeExpiredError(`Device code is no longer valid: ${parsed.message}`)
                 } else {
                     throw new Error(`Failed to retrieve token with device code: ${parsed.message}`)
                 }
@@ -574,8 +798,7 @@ export class DeviceCodeGrantFlowStrategy implements UserAccessTokenFlowStrategy
                 throw new Error(`Failed to retrieve token with device code: ${response.status} ${response.statusText}`)
             }
         }
-        const data = await response.json()
-        const parsed = TokenResponseSchema.parse(data)
+        const parsed = TokenResponseSchema.parse(response.body)
         if (parsed.token_type !== 'bearer') {
             throw new Error(`Invalid token type received: ${parsed.token_type}`)
         }
@@ -588,34 +811,48 @@ export class DeviceCodeGrantFlowStrategy implements UserAccessTokenFlowStrategy
             expiry,
             scopes: tokenScopes,
             refreshToken,
+            clientID: this.clientID,
         }
     }
 
     /**
-     * Helper method that polls for a user access token using the device code until the user authorizes it or the device code expires. Returns null if the device code expires before authorization.
+     * Helper method that polls for a user access token using the device code until the user authorizes it. Polls never overlap, and the interval grows by 5 seconds every time Twitch answers `slow_down`.
      * @param deviceCodeResponse The response from the {@link requestDeviceCode} method containing the device code, expiration time, polling interval, and scopes.
+     * @param options.signal Stops polling, rejecting with an `AbortError`.
+     * @param options.onProgress Called after every poll that didn't return a token, e.g. to show a countdown until the code expires.
+     * @throws {DeviceCodeDeniedError} If the user denied the authorization.
+     * @throws {DeviceCodeExpiredError} If the device code expired before the user authorized it.
      */
-    async pollForToken(deviceCodeResponse: { deviceCode: string, expiresIn: number, interval: number, scopes: UserAccessTokenScope[] }): Promise<UserAccessToken | null> {
-        const { deviceCode, expiresIn, interval, scopes } = deviceCodeResponse
-        const initialUserToken = await new Promise<UserAccessToken | null>((resolve) => {
-            let debounce = false
-            const intervalHandle = setInterval(async () => {
-                if (debounce) return
-                debounce = true
-                const token = await this.tryRetrieveTokenWithDeviceCode(deviceCode, scopes)
-                debounce = false
-                if (!token) return
-                clearInterval(intervalHandle)
-                clearTimeout(timeoutHandle)
-                resolve(token)
-            }, interval * 1000)
-    
-            const timeoutHandle = setTimeout(() => {
-                clearInterval(intervalHandle)
-                resolve(null)
-            }, expiresIn * 1000)
-        })
-        return initialUserToken
+    async pollForToken(deviceCodeResponse: { deviceCode: string, expiresIn: number, interval: number, scopes: UserAccessTokenScope[] }, options: DeviceCodePollOptions = {}): Promise<UserAccessToken> {
+        const { deviceCode, expiresIn, scopes } = deviceCodeResponse
+        const { signal, onProgress } = options
+        const expiresAt = Date.now() + expiresIn * 1000
+        let intervalSeconds = deviceCodeResponse.interval
+        for (let attempt = 1; ; attempt++) {
+            signal?.throwIfAborted()
+            const delayMs = Math.min(intervalSeconds * 1000, expiresAt - Date.now())
+            if (delayMs > 0) {
+                await wait(delayMs, signal)
+            }
+            if (Date.now() >= expiresAt) {
+                throw new DeviceCodeExpiredError(`Device code expired after ${expiresIn} seconds without the user authorizing the application`)
+            }
+            const result = await this.requestTokenWithDeviceCode(deviceCode, scopes, signal)
+            if (typeof result !== 'string') {
+                return result
+            }
+            if (result === 'slow_down') {
+                // RFC 8628 section 3.5: the interval must grow by 5 seconds for this and all later polls
+                intervalSeconds += 5
+            }
+            onProgress?.({
+                status: result,
+                attempt,
+                intervalSeconds,
+                expiresAt,
+                remainingSeconds: Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000)),
+            })
+        }
     }
 
     /**
@@ -644,26 +881,23 @@ export class DeviceCodeGrantFlowStrategy implements UserAccessTokenFlowStrategy
         if (!expiredToken.refreshToken) {
             throw new Error("Access token does not have a valid refresh token")
         }
-        const url = new URL('https://id.twitch.tv/oauth2/token')
-        const body = new URLSearchParams()
-        body.append('client_id', this.clientID)
+        const form: Record<string, string> = {
+            client_id: this.clientID,
+            grant_type: 'refresh_token',
+            refresh_token: expiredToken.refreshToken,
+        }
         if (this.clientSecret && this.isConfidentialClient) {
-            body.append('client_secret', this.clientSecret)
+            form['client_secret'] = this.clientSecret
         }
-        body.append('grant_type', 'refresh_token')
-        body.append('refresh_token', expiredToken.refreshToken)
-        const response = await fetch(url.toString(), {
+        const response = await this.httpClient.fetch({
             method: 'POST',
-            headers: {
-                'Content-Type': 'application/x-www-form-urlencoded',
-            },
-            body: body.toString(),
+            path: '/oauth2/token',
+            form,
         })
-        if (!response.ok) {
-            throw new Error(`Failed to refresh access token: ${response.status} ${response.statusText}`)
+        if (!isSuccessfulResponse(response)) {
+            throw getRefreshError(response)
         }
-        const data = await response.json()
-        const parsed = TokenResponseSchema.parse(data)
+        const parsed = TokenResponseSchema.parse(response.body)
         if (parsed.token_type !== 'bearer') {
             throw new Error(`Invalid token type received: ${parsed.token_type}`)
         }
@@ -676,8 +910,17 @@ export class DeviceCodeGrantFlowStrategy implements UserAccessTokenFlowStrategy
             expiry,
             scopes,
             refreshToken,
+            clientID: this.clientID,
         }
     }
+
+    /**
+     * Revokes a user access token so it can no longer be used, e.g. when the user disconnects their account.
+     * @param token The user access token to revoke.
+     */
+    async revokeAccessToken(token: UserAccessToken): Promise<void> {
+        await revokeToken(this.httpClient, this.clientID, token.accessToken)
+    }
 }
 
 /**
@@ -689,10 +932,12 @@ export class ClientCredentialsFlowStrategy implements AppAccessTokenFlowStrategy
      * 
      * @param clientID Your Twitch application's Client ID.
      * @param clientSecret Your Twitch application's Client Secret. Required.
+     * @param httpClient The client to send OAuth requests with, e.g. to use a proxy or a mock OAuth server. Defaults to `fetch` against Twitch's OAuth server.
      */
     constructor(
         private readonly clientID: string,
         private readonly clientSecret: string | null,
+        private readonly httpClient: OAuthHttpClient = getDefaultOAuthHttpClient(),
     ) {
 
     }
@@ -701,6 +946,10 @@ export class ClientCredentialsFlowStrategy implements AppAccessTokenFlowStrategy
         return this.clientID
     }
 
+    getHttpClient(): OAuthHttpClient {
+        return this.httpClient
+    }
+
     // Client Credentials Flow:
     // 1. Request app access token via API endpoint with client ID and client secret
 
@@ -717,23 +966,19 @@ export class ClientCredentialsFlowStrategy implements AppAccessTokenFlowStrategy
         if (!this.clientSecret) {
             throw new Error("Client Secret is required for Client Credentials Flow")
         }
-        const url = new URL('https://id.twitch.tv/oauth2/token')
-        const body = new URLSearchParams()
-        body.append('client_id', this.clientID)
-        body.append('client_secret', this.clientSecret)
-        body.append('grant_type', 'client_credentials')
-        const response = await fetch(url.toString(), {
+        const response = await this.httpClient.fetch({
             method: 'POST',
-            headers: {
-                'Content-Type': 'application/x-www-form-urlencoded',
+            path: '/oauth2/token',
+            form: {
+                client_id: this.clientID,
+                client_secret: this.clientSecret,
+                grant_type: 'client_credentials',
             },
-            body: body.toString(),
         })
-        if (!response.ok) {
+        if (!isSuccessfulResponse(response)) {
             throw new Error(`Failed to request app access token: ${response.status} ${response.statusText}`)
         }
-        const data = await response.json()
-        const parsed = TokenResponseSchema.parse(data)
+        const parsed = TokenResponseSchema.parse(response.body)
         if (parsed.token_type !== 'bearer') {
             throw new Error(`Invalid token type received: ${parsed.token_type}`)
         }
@@ -741,6 +986,7 @@ export class ClientCredentialsFlowStrategy implements AppAccessTokenFlowStrategy
         return {
             accessToken: parsed.access_token,
             expiry,
+            clientID: this.clientID,
         }
     }
 
@@ -756,6 +1002,14 @@ export class ClientCredentialsFlowStrategy implements AppAccessTokenFlowStrategy
         // Client Credentials Flow tokens can be refreshed by simply requesting a new token
         return this.requestAppAccessToken()
     }
+
+    /**
+     * Revokes an app access token so it can no longer be used.
+     * @param token The app access token to revoke.
+     */
+    async revokeAccessToken(token: AppAccessToken): Promise<void> {
+        await revokeToken(this.httpClient, this.clientID, token.accessToken)
+    }
 }
 
 interface BaseAccessTokenProvider<T extends UserAccessToken | AppAccessToken> {
@@ -764,10 +1018,17 @@ interface BaseAccessTokenProvider<T extends UserAccessToken | AppAccessToken> {
     canRefreshAccessToken(): boolean
     refreshAccessToken(): Promise<T>
     validateAccessToken(): Promise<boolean>
+    /**
+     * Revokes the current access token. The provider can't provide tokens afterwards.
+     */
+    revoke(): Promise<void>
 }
 
 export interface UserAccessTokenProvider extends BaseAccessTokenProvider<UserAccessToken> {
-
+    /**
+     * Replaces the current access token without rebuilding the provider
+     */
+    setAccessToken(accessToken: UserAccessToken): Promise<void>
 }
 
 export interface AppAccessTokenProvider extends BaseAccessTokenProvider<AppAccessToken> {
@@ -781,6 +1042,135 @@ export class InvalidTokenError extends Error {
     }
 }
 
+/**
+ * Thrown when Twitch rejects a refresh token. The token can't be recovered; the user has to go through an authorization flow again.
+ */
+export class ReauthorizationRequiredError extends InvalidTokenError {
+    constructor(message: string) {
+        super(message)
+        this.name = "ReauthorizationRequiredError"
+    }
+}
+
+export interface AccessTokenProviderOptions<T extends UserAccessToken | AppAccessToken> {
+    /** Where to save the token every time it changes. */
+    tokenStorage?: TokenStorage<T> | null | undefined
+    /** How long before expiry a token is refreshed. Defaults to 5 minutes. */
+    refreshMarginMs?: number | undefined
+    /** How many times a failed refresh is retried. Rejected refresh tokens are never retried. Defaults to 3. */
+    maxRefreshRetries?: number | undefined
+    /** The delay before the first retry of a failed refresh, doubling with each retry after it. Defaults to 1 second. */
+    refreshRetryDelayMs?: number | undefined
+    /** The client to validate user access tokens with. Defaults to the strategy's client. */
+    httpClient?: OAuthHttpClient | undefined
+}
+
+/**
+ * Runs a refresh, retrying failures with exponential backoff
+ */
+async function refreshWithBackoff<T>(refresh: () => Promise<T>, options: AccessTokenProviderOptions<UserAccessToken | AppAccessToken>): Promise<T> {
+    const maxRetries = options.maxRefreshRetries ?? 3
+    const retryDelayMs = options.refreshRetryDelayMs ?? 1000
+    for (let retryCount = 0; ; retryCount++) {
+        try {
+            return await refresh()
+        } catch (e) {
+            if (e instanceof ReauthorizationRequiredError || retryCount >= maxRetries) {
+                throw e
+            }
+            await wait(retryDelayMs * 2 ** retryCount)
+        }
+    }
+}
+
+const DEFAULT_REFRESH_MARGIN_MS = 5 * 60 * 1000
+
+// How long to keep re-reading a store without a lock for another process's refreshed token
+const STORE_REREAD_ATTEMPTS = 5
+const STORE_REREAD_DELAY_MS = 200
+
+/**
+ * Why a token failed validation: it expired, Twitch's validation endpoint rejected it, or it belongs to a different Client ID
+ */
+export type TokenValidationFailureReason = 'expired' | 'rejected' | 'client_id_mismatch'
+
+/**
+ * The lifecycle events of a token provider's token
+ */
+export type AccessTokenProviderEvents<T extends UserAccessToken | AppAccessToken> = {
+    /** A new token replaced the previous one after a refresh. Save it if you persist tokens yourself. */
+    refreshed: [token: T, previousToken: T | null],
+    /** Twitch's validation endpoint confirmed that the token is valid. */
+    validated: [token: T],
+    /** The token turned out to be invalid. The provider tries to refresh it before giving up. */
+    validationFailed: [token: T, reason: TokenValidationFailureReason],
+    /** The provider can no longer provide a token without the user authorizing the application again, e.g. because the refresh token was rejected. */
+    invalidated: [token: T, error: InvalidTokenError],
+    /** The token was revoked through the provider's `revoke` method. */
+    revoked: [token: T],
+    /** A new token was set through the provider's `setAccessToken` method, e.g. after the user authorized more scopes. Its scopes may differ from the previous token's. */
+    replaced: [token: T, previousToken: T],
+}
+
+/**
+ * Thrown when a token is used with a different Client ID than the one it was issued for, which Twitch would reject.
+ */
+export class ClientIDMismatchError extends Error {
+    constructor(
+        message: string,
+        public readonly expectedClientID: string,
+        public readonly actualClientID: string,
+    ) {
+        super(message)
+        this.name = "ClientIDMismatchError"
+    }
+}
+
+/**
+ * Thrown when a user access token provider is given a token that belongs to a different user than its current token, e.g. because the user switched accounts on the consent screen.
+ */
+export class TokenUserMismatchError extends Error {
+    constructor(
+        message: string,
+        public readonly expectedUserID: string,
+        /** The user the new token belongs to, or null if Twitch didn't report one. */
+        public readonly actualUserID: string | null,
+    ) {
+        super(message)
+        this.name = "TokenUserMismatchError"
+    }
+}
+
+/**
+ * The application configuration and tokens to make API calls with. Helix endpoint functions and EventSub subscribe functions accept it as part of their options, so it can be spread into a call and individual fields overridden, e.g. `{ ...auth, userAccessToken: botToken }`.
+ */
+export interface AuthContext {
+    /** Your Twitch application's Client ID. Calls fail with a {@link ClientIDMismatchError} if a token was issued for a different Client ID. */
+    clientID: string
+    /** Your Twitch application's Client Secret, if it has one. */
+    clientSecret?: string | null | undefined
+    /** Whether your application is a confidential client (can securely store a client secret) or a public client. */
+    isConfidentialClient?: boolean | undefined
+    userAccessToken?: UserAccessTokenProvider | undefined
+    appAccessToken?: AppAccessTokenProvider | undefined
+}
+
+/**
+ * Checks that a token provider and the token it provided belong to the Client ID being used for a call. Tokens that don't know their Client ID are accepted.
+ * @param clientID The Client ID being used for the call.
+ * @param provider The provider the token came from.
+ * @param token The token being used for the call.
+ */
+export function assertTokenClientID(clientID: string, provider: BaseAccessTokenProvider<UserAccessToken | AppAccessToken>, token: UserAccessToken | AppAccessToken): void {
+    const providerClientID = provider.getClientID()
+    if (providerClientID !== clientID) {
+        throw new ClientIDMismatchError(`Token provider belongs to Client ID ${providerClientID} but Client ID ${clientID} is being used`, clientID, providerClientID)
+    }
+    if (token.clientID !== undefined && token.clientID !== clientID) {
+        throw new ClientIDMismatchError(`Access token was issued for Client ID ${token.clientID} but Client ID ${clientID} is being used`, clientID, token.clientID)
+    }
+}
+
 /**
  * Provides user access tokens using the specified {@link UserAccessTokenFlowStrategy}.
  */
@@ -789,16 +1179,45 @@ export class DefaultUserAccessTokenProvider implements UserAccessTokenProvider {
     private validationResult: boolean | null = null
     private validationExpiry: number | null = null
     private validationIntervalID: ReturnType<typeof setInterval> | null = null
+    private revoked = false
+    private refreshPromise: Promise<void> | null = null
+    // Set once Twitch rejected the refresh token, so that it isn't sent again
+    private reauthorizationError: ReauthorizationRequiredError | null = null
+    private readonly tokenStorage: TokenStorage<UserAccessToken> | null
+    private readonly httpClient: OAuthHttpClient
+    public readonly events = new EventEmitter<AccessTokenProviderEvents<UserAccessToken>>()
 
     /**
      * @param strategy The strategy to use for obtaining and refreshing user access tokens.
      * @param accessToken The initial user access token.
+     * @param options Token storage and refresh behavior. Use {@link DefaultUserAccessTokenProvider.fromTokenStorage} to also load the token from storage.
      */
     constructor(
         private readonly strategy: UserAccessTokenFlowStrategy,
         private accessToken: UserAccessToken,
+        private readonly options: AccessTokenProviderOptions<UserAccessToken> = {},
     ) {
+        this.tokenStorage = options.tokenStorage ?? null
+        this.httpClient = options.httpClient ?? strategy.getHttpClient?.() ?? getDefaultOAuthHttpClient()
+    }
 
+    /**
+     * Creates a provider for the token saved in a token store, e.g. when a process starts.
+     * @param strategy The strategy to use for obtaining and refreshing user access tokens.
+     * @param tokenStorage The store and key to load the token from and save it to.
+     * @param initialAccessToken The token to start with and save if the store has none, e.g. one that was just authorized.
+     * @param options Refresh behavior.
+     */
+    static async fromTokenStorage(strategy: UserAccessTokenFlowStrategy, tokenStorage: TokenStorage<UserAccessToken>, initialAccessToken: UserAccessToken | null = null, options: Omit<AccessTokenProviderOptions<UserAccessToken>, 'tokenStorage'> = {}): Promise<DefaultUserAccessTokenProvider> {
+        const storedToken = await tokenStorage.store.read(tokenStorage.key)
+        if (storedToken) {
+            return new DefaultUserAccessTokenProvider(strategy, storedToken, { ...options, tokenStorage })
+        }
+        if (!initialAccessToken) {
+            throw new InvalidTokenError(`No user access token stored under ${tokenStorage.key}`)
+        }
+        await tokenStorage.store.write(tokenStorage.key, initialAccessToken)
+        return new DefaultUserAccessTokenProvider(strategy, initialAccessToken, { ...options, tokenStorage })
     }
 
     /**
@@ -809,17 +1228,37 @@ export class DefaultUserAccessTokenProvider implements UserAccessTokenProvider {
     }
 
     /**
-     * Retrieves a valid user access token, refreshing it if necessary.
+     * Retrieves a valid user access token. Tokens are refreshed ahead of expiry, and concurrent callers share a single refresh.
+     * @throws {ReauthorizationRequiredError} If the token expired and Twitch rejected its refresh token.
      */
     async getAccessToken() {
-        if (!this.validateAccessToken()) {
-            // Attempt to refresh the token if possible
-            if (this.strategy.canRefreshAccessToken(this.accessToken)) {
-                this.accessToken = await this.strategy.refreshAccessToken(this.accessToken)
+        if (this.revoked) {
+            throw new InvalidTokenError("User access token has been revoked")
+        }
+        const refreshMarginMs = this.options.refreshMarginMs ?? DEFAULT_REFRESH_MARGIN_MS
+        if (Date.now() >= this.accessToken.expiry - refreshMarginMs && this.canRefreshAccessToken()) {
+            try {
+                await this.refresh()
+            } catch (e) {
+                // The current token can still be used until it actually expires
+                if (Date.now() >= this.accessToken.expiry) {
+                    throw e
+                }
             }
         }
-        if (!this.validateAccessToken()) {
-            throw new InvalidTokenError("Failed to obtain valid user access token")
+        if (!(await this.validateAccessToken())) {
+            // Attempt to refresh the token if possible
+            if (this.canRefreshAccessToken()) {
+                await this.refresh()
+            }
+            if (this.reauthorizationError) {
+                throw this.reauthorizationError
+            }
+            if (!(await this.validateAccessToken())) {
+                const error = new InvalidTokenError("Failed to obtain valid user access token")
+                this.events.emit('invalidated', this.accessToken, error)
+                throw error
+            }
         }
         return this.accessToken
     }
@@ -828,20 +1267,145 @@ export class DefaultUserAccessTokenProvider implements UserAccessTokenProvider {
      * Determines if the current access token can be refreshed.
      */
     canRefreshAccessToken() {
-        return this.strategy.canRefreshAccessToken(this.accessToken)
+        return !this.revoked && !this.reauthorizationError && this.strategy.canRefreshAccessToken(this.accessToken)
     }
 
     /**
      * Refreshes the current access token using the strategy's refresh method.
      */
     async refreshAccessToken() {
-        if (!this.strategy.canRefreshAccessToken(this.accessToken)) {
+        if (!this.canRefreshAccessToken()) {
             throw new InvalidTokenError("Cannot refresh access token")
         }
-        this.accessToken = await this.strategy.refreshAccessToken(this.accessToken)
+        await this.refresh()
         return this.accessToken
     }
 
+    /**
+     * Refreshes the token, joining the refresh already in flight if there is one. Each refresh can rotate the refresh token, so concurrent refreshes would invalidate each other's results.
+     */
+    private refresh(): Promise<void> {
+        this.refreshPromise ??= refreshWithBackoff(() => this.refreshOnce(), this.options)
+            .catch(e => {
+                if (e instanceof ReauthorizationRequiredError) {
+                    this.reauthorizationError = e
+                    this.events.emit('invalidated', this.accessToken, e)
+                }
+                throw e
+            })
+            .finally(() => {
+                this.refreshPromise = null
+            })
+        return this.refreshPromise
+    }
+
+    /**
+     * Refreshes the token and saves the result. Refreshing can rotate the refresh token, so when another process shares the token store, whichever process refreshes second would be holding a dead refresh token. The store's lock is held while refreshing if it has one, and the store is checked before refreshing to pick up the other process's token instead. Stores without a lock are re-read for a while after a rejected refresh, since the other process may not have saved its token yet.
+     */
+    private async refreshOnce() {
+        const tokenStorage = this.tokenStorage
+        const release = await tokenStorage?.store.lock?.(tokenStorage.key)
+        try {
+            const currentToken = this.accessToken
+            if (tokenStorage) {
+                const storedToken = await tokenStorage.store.read(tokenStorage.key)
+                if (storedToken && storedToken.accessToken !== currentToken.accessToken && Date.now() < storedToken.expiry) {
+                    this.replaceAccessToken(storedToken)
+                    this.events.emit('refreshed', storedToken, currentToken)
+                    return
+                }
+            }
+            let refreshedToken: UserAccessToken
+            try {
+                refreshedToken = await this.strategy.refreshAccessToken(currentToken)
+            } catch (e) {
+                const storedToken = tokenStorage && !release ? await this.waitForStoredRefresh(tokenStorage, currentToken, e) : null
+                if (storedToken) {
+                    // Another process refreshed the token in the meantime, which invalidated the refresh token used here
+                    this.replaceAccessToken(storedToken)
+                    this.events.emit('refreshed', storedToken, currentToken)
+                    return
+                }
+                throw e
+            }
+            this.replaceAccessToken(refreshedToken)
+            await tokenStorage?.store.write(tokenStorage.key, refreshedToken)
+            this.events.emit('refreshed', refreshedToken, currentToken)
+        } finally {
+            await release?.()
+        }
+    }
+
+    /**
+     * Re-reads the store after a failed refresh until it holds a token with a different refresh token, i.e. one another process refreshed. Only rejected refresh tokens are waited on, since other failures don't point at another process.
+     */
+    private async waitForStoredRefresh(tokenStorage: TokenStorage<UserAccessToken>, currentToken: UserAccessToken, error: unknown): Promise<UserAccessToken | null> {
+        const attempts = error instanceof ReauthorizationRequiredError ? STORE_REREAD_ATTEMPTS : 1
+        for (let attempt = 0; attempt < attempts; attempt++) {
+            if (attempt > 0) {
+                await wait(STORE_REREAD_DELAY_MS)
+            }
+            const storedToken = await tokenStorage.store.read(tokenStorage.key)
+            if (storedToken && storedToken.refreshToken !== currentToken.refreshToken) {
+                return storedToken
+            }
+        }
+        return null
+    }
+
+    private replaceAccessToken(accessToken: UserAccessToken) {
+        this.accessToken = accessToken
+        this.revoked = false
+        this.reauthorizationError = null
+        // The cached validation result belongs to the previous token
+        this.validationResult = null
+        this.validationExpiry = null
+    }
+
+    /**
+     * Replaces the current access token, e.g. after the user re-authorized the application with more scopes, and emits `replaced`. The new token is validated first, since the user may have signed in as a different account on the consent screen. Everything holding this provider uses the new token from its next call on.
+     * @param accessToken The new user access token. It must have been issued for the same Client ID and belong to the same user as the current token.
+     * @throws {TokenUserMismatchError} If the new token belongs to a different user.
+     */
+    async setAccessToken(accessToken: UserAccessToken) {
+        const clientID = this.strategy.getClientID()
+        if (accessToken.clientID !== undefined && accessToken.clientID !== clientID) {
+            throw new ClientIDMismatchError(`Access token was issued for Client ID ${accessToken.clientID} but the provider belongs to Client ID ${clientID}`, clientID, accessToken.clientID)
+        }
+        const validation = await fetchTokenValidation(this.httpClient, accessToken)
+        if (!validation) {
+            throw new InvalidTokenError("The new user access token was rejected by Twitch's validation endpoint")
+        }
+        if (validation.client_id !== clientID) {
+            throw new ClientIDMismatchError(`Access token was issued for Client ID ${validation.client_id} but the provider belongs to Client ID ${clientID}`, clientID, validation.client_id)
+        }
+        applyValidationResponse(accessToken, validation)
+        const previousToken = this.accessToken
+        // The token is saved and used under the current user's identity, so another account's token must not take its place
+        if (previousToken.userID !== undefined && accessToken.userID !== previousToken.userID) {
+            throw new TokenUserMismatchError(`Access token belongs to user ${accessToken.userID} but the provider belongs to user ${previousToken.userID}`, previousToken.userID, accessToken.userID ?? null)
+        }
+        this.replaceAccessToken(accessToken)
+        await this.tokenStorage?.store.write(this.tokenStorage.key, accessToken)
+        this.events.emit('replaced', accessToken, previousToken)
+    }
+
+    /**
+     * Revokes the current access token, e.g. when the user disconnects their account. Stops validation polling and emits `revoked` so that anything depending on the token, like EventSub subscriptions, can be cleaned up. The provider stays invalid until a new token is set with {@link setAccessToken}.
+     */
+    async revoke() {
+        const token = this.accessToken
+        await this.strategy.revokeAccessToken(token)
+        this.revoked = true
+        this.validationResult = false
+        if (this.validationIntervalID) {
+            clearInterval(this.validationIntervalID)
+            this.validationIntervalID = null
+        }
+        await this.tokenStorage?.store.delete(this.tokenStorage.key)
+        this.events.emit('revoked', token)
+    }
+
     /**
      * Starts polling to validate the access token every hour. Twitch requires apps to validate tokens at least once per hour, even if they aren't being used for API requests. Returns a function that stops the polling.
      */
@@ -855,7 +1419,7 @@ export class DefaultUserAccessTokenProvider implements UserAccessTokenProvider {
     }
 
     /**
-     * Validates the current access token by calling the Twitch OAuth validation endpoint. Caches the result for one hour.
+     * Validates the current access token by calling the Twitch OAuth validation endpoint. Caches the result for one hour. A valid token's user ID, login, scopes and expiry are updated from the response and saved to the token storage.
      * @returns True if the access token is valid, false otherwise.
      */
     async validateAccessToken() {
@@ -873,40 +1437,45 @@ export class DefaultUserAccessTokenProvider implements UserAccessTokenProvider {
             return this.validationResult ?? false
         } else {
             // Start new validation
+            const token = this.accessToken
+            const fail = (reason: TokenValidationFailureReason) => {
+                this.events.emit('validationFailed', token, reason)
+                return false
+            }
             this.validationPromise = (async (): Promise<boolean> => {
-                if (!this.accessToken) {
-                    return false
-                }
-                if (Date.now() >= this.accessToken.expiry) {
-                    return false
+                if (Date.now() >= token.expiry) {
+                    return fail('expired')
                 }
 
-                // TODO: Cache validation results for one hour to avoid excessive validation requests
                 // Twitch requires apps to validate tokens every hour even if they aren't in use
 
-                const url = new URL('https://id.twitch.tv/oauth2/validate')
-                const response = await fetch(url.toString(), {
-                    method: 'GET',
-                    headers: {
-                        'Authorization': `Bearer ${this.accessToken.accessToken}`,
-                    },
-                })
-                if (!response.ok) {
-                    return false
+                const parsed = await fetchTokenValidation(this.httpClient, token)
+                if (!parsed) {
+                    return fail('rejected')
                 }
-                const data = await response.json()
-                const parsed = ValidationResponseSchema.parse(data)
                 if (parsed.client_id !== this.strategy.getClientID()) {
-                    return false
+                    return fail('client_id_mismatch')
+                }
+                // Saved so that the user's ID and login are known without validating again after a restart
+                if (applyValidationResponse(token, parsed) && this.accessToken === token) {
+                    await this.tokenStorage?.store.write(this.tokenStorage.key, token)
                 }
 
                 // Set validation expiry to one hour from now
                 this.validationExpiry = Date.now() + 3600 * 1000
+                this.events.emit('validated', token)
                 return true
             })()
-            this.validationResult = await this.validationPromise
-            this.validationPromise = null
-            return this.validationResult
+            try {
+                const result = await this.validationPromise
+                // The token may have been replaced while it was being validated, which resets the cached result
+                if (this.accessToken === token) {
+                    this.validationResult = result
+                }
+                return result
+            } finally {
+                this.validationPromise = null
+            }
         }
     }
 }
@@ -915,16 +1484,35 @@ export class DefaultUserAccessTokenProvider implements UserAccessTokenProvider {
  * Provides app access tokens using the specified {@link AppAccessTokenFlowStrategy}.
  */
 export class DefaultAppAccessTokenProvider implements AppAccessTokenProvider {
+    private revoked = false
+    private refreshPromise: Promise<AppAccessToken> | null = null
+    private readonly tokenStorage: TokenStorage<AppAccessToken> | null
+    // The last token validationFailed was emitted for, so that it is reported once instead of on every call
+    private reportedExpiredToken: AppAccessToken | null = null
+    public readonly events = new EventEmitter<AccessTokenProviderEvents<AppAccessToken>>()
 
     /**
      * @param strategy The strategy to use for obtaining and refreshing app access tokens.
      * @param accessToken The initial app access token, or null if none is available.
+     * @param options Token storage and refresh behavior. Use {@link DefaultAppAccessTokenProvider.fromTokenStorage} to also load the token from storage.
      */
     constructor(
         private readonly strategy: AppAccessTokenFlowStrategy,
         private accessToken: AppAccessToken | null,
+        private readonly options: AccessTokenProviderOptions<AppAccessToken> = {},
     ) {
+        this.tokenStorage = options.tokenStorage ?? null
+    }
 
+    /**
+     * Creates a provider for the token saved in a token store, e.g. when a process starts. A new token is requested on first use if the store has none.
+     * @param strategy The strategy to use for obtaining and refreshing app access tokens.
+     * @param tokenStorage The store and key to load the token from and save it to.
+     * @param options Refresh behavior.
+     */
+    static async fromTokenStorage(strategy: AppAccessTokenFlowStrategy, tokenStorage: TokenStorage<AppAccessToken>, options: Omit<AccessTokenProviderOptions<AppAccessToken>, 'tokenStorage'> = {}): Promise<DefaultAppAccessTokenProvider> {
+        const storedToken = await tokenStorage.store.read(tokenStorage.key)
+        return new DefaultAppAccessTokenProvider(strategy, storedToken, { ...options, tokenStorage })
     }
 
     /**
@@ -935,17 +1523,32 @@ export class DefaultAppAccessTokenProvider implements AppAccessTokenProvider {
     }
 
     /**
-     * Retrieves a valid app access token, generating a new one if necessary.
+     * Retrieves a valid app access token, generating a new one ahead of expiry or if there is none. Concurrent callers share a single request for a new token.
      */
     async getAccessToken(): Promise<AppAccessToken> {
-        if (!this.validateAccessToken()) {
-            const tokenToRefreshWith = this.accessToken ?? { accessToken: '', expiry: 0 }
-            if (this.strategy.canRefreshAccessToken(tokenToRefreshWith)) {
-                this.accessToken = await this.strategy.refreshAccessToken(tokenToRefreshWith)
+        if (this.revoked) {
+            throw new InvalidTokenError("App access token has been revoked")
+        }
+        const refreshMarginMs = this.options.refreshMarginMs ?? DEFAULT_REFRESH_MARGIN_MS
+        if ((!this.accessToken || Date.now() >= this.accessToken.expiry - refreshMarginMs) && this.canRefreshAccessToken()) {
+            try {
+                await this.refresh()
+            } catch (e) {
+                // The current token can still be used until it actually expires
+                if (!(await this.validateAccessToken())) {
+                    if (this.accessToken) {
+                        this.events.emit('invalidated', this.accessToken, new InvalidTokenError(`Failed to obtain app access token: ${e instanceof Error ? e.message : String(e)}`))
+                    }
+                    throw e
+                }
             }
         }
-        if (!this.validateAccessToken() || !this.accessToken) {
-            throw new InvalidTokenError("Failed to obtain app access token")
+        if (!(await this.validateAccessToken()) || !this.accessToken) {
+            const error = new InvalidTokenError("Failed to obtain app access token")
+            if (this.accessToken) {
+                this.events.emit('invalidated', this.accessToken, error)
+            }
+            throw error
         }
         return this.accessToken
     }
@@ -954,28 +1557,66 @@ export class DefaultAppAccessTokenProvider implements AppAccessTokenProvider {
      * Determines if the current access token can be refreshed.
      */
     canRefreshAccessToken(): boolean {
-        return this.strategy.canRefreshAccessToken(this.accessToken ?? { accessToken: '', expiry: 0 })
+        return !this.revoked && this.strategy.canRefreshAccessToken(this.accessToken ?? { accessToken: '', expiry: 0 })
     }
 
     /**
      * Refreshes the current access token using the strategy's refresh method.
      */
-    refreshAccessToken(): Promise<AppAccessToken> {
-        const tokenToRefreshWith = this.accessToken ?? { accessToken: '', expiry: 0 }
-        if (!this.strategy.canRefreshAccessToken(tokenToRefreshWith)) {
+    async refreshAccessToken(): Promise<AppAccessToken> {
+        if (!this.canRefreshAccessToken()) {
             throw new InvalidTokenError("Cannot refresh app access token")
         }
-        return this.strategy.refreshAccessToken(tokenToRefreshWith)
+        return this.refresh()
+    }
+
+    /**
+     * Requests a new token, joining the request already in flight if there is one.
+     */
+    private refresh(): Promise<AppAccessToken> {
+        this.refreshPromise ??= refreshWithBackoff(async () => {
+            const previousToken = this.accessToken
+            const accessToken = await this.strategy.refreshAccessToken(previousToken ?? { accessToken: '', expiry: 0 })
+            this.accessToken = accessToken
+            await this.tokenStorage?.store.write(this.tokenStorage.key, accessToken)
+            this.events.emit('refreshed', accessToken, previousToken)
+            return accessToken
+        }, this.options).finally(() => {
+            this.refreshPromise = null
+        })
+        return this.refreshPromise
     }
 
+    /**
+     * Checks whether the current access token has expired. App access tokens are not checked against the validation endpoint, so `validated` is never emitted and `validationFailed` is emitted once per expired token.
+     */
     async validateAccessToken(): Promise<boolean> {
-        // App access tokens do not require checking against a validation endpoint but may still expire
-        if (!this.accessToken) {
+        if (this.revoked || !this.accessToken) {
             return false
         }
         if (Date.now() >= this.accessToken.expiry) {
+            if (this.reportedExpiredToken !== this.accessToken) {
+                this.reportedExpiredToken = this.accessToken
+                this.events.emit('validationFailed', this.accessToken, 'expired')
+            }
             return false
         }
         return true
     }
+
+    /**
+     * Revokes the current access token and emits `revoked` so that anything depending on it, like EventSub subscriptions, can be cleaned up. The provider won't request new tokens afterwards.
+     */
+    async revoke(): Promise<void> {
+        const token = this.accessToken
+        if (token) {
+            await this.strategy.revokeAccessToken(token)
+        }
+        this.revoked = true
+        this.accessToken = null
+        await this.tokenStorage?.store.delete(this.tokenStorage.key)
+        if (token) {
+            this.events.emit('revoked', token)
+        }
+    }
 }
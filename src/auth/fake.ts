@@ -0,0 +1,589 @@
+import { TWITCH_OAUTH_BASE_URL, type OAuthHttpClient, type OAuthHttpRequestArgs, type OAuthHttpResponse } from './http.js'
+import { UserAccessTokenScopeSchema, type AppAccessToken, type UserAccessToken, type UserAccessTokenScope } from './types.js'
+
+// Twitch's user access tokens last about four hours and app access tokens about two months
+const DEFAULT_USER_ACCESS_TOKEN_EXPIRES_IN = 4 * 60 * 60
+const DEFAULT_APP_ACCESS_TOKEN_EXPIRES_IN = 60 * 24 * 60 * 60
+const DEFAULT_DEVICE_CODE_EXPIRES_IN = 30 * 60
+const DEFAULT_DEVICE_CODE_INTERVAL = 5
+const AUTHORIZATION_CODE_EXPIRES_IN = 10 * 60
+
+const DEVICE_VERIFICATION_URL = 'https://www.twitch.tv/activate'
+
+export interface FakeOAuthClient {
+    clientID: string
+    /** The Client Secret, or null for public clients, which can't use the authorization code or client credentials grants */
+    clientSecret: string | null
+    /** The Redirect URIs registered for the client */
+    redirectURIs: string[]
+}
+
+export interface FakeOAuthUser {
+    id: string
+    login: string
+}
+
+export interface FakeOAuthToken {
+    accessToken: string
+    refreshToken: string | null
+    clientID: string
+    /** The user the token belongs to, or null for app access tokens */
+    userID: string | null
+    scopes: UserAccessTokenScope[]
+    /** When the access token expires, as a Unix timestamp in milliseconds */
+    expiresAt: number
+}
+
+export interface FakeOAuthAuthorizationCode {
+    code: string
+    clientID: string
+    userID: string
+    scopes: UserAccessTokenScope[]
+    redirectURI: string
+    expiresAt: number
+}
+
+export interface FakeOAuthDeviceCode {
+    deviceCode: string
+    userCode: string
+    clientID: string
+    scopes: UserAccessTokenScope[]
+    expiresAt: number
+    status: 'pending' | 'approved' | 'denied'
+    /** The user who approved the code */
+    userID: string | null
+    lastPolledAt: number | null
+}
+
+/**
+ * The in-memory data the fake serves responses from. Tests can seed and inspect it directly.
+ */
+export interface FakeOAuthState {
+    clients: FakeOAuthClient[]
+    users: FakeOAuthUser[]
+    /** Every issued token that hasn't been revoked, including expired ones */
+    tokens: FakeOAuthToken[]
+    authorizationCodes: FakeOAuthAuthorizationCode[]
+    deviceCodes: FakeOAuthDeviceCode[]
+}
+
+export interface FakeOAuthInjectedResponse {
+    status: number
+    /** Only fail requests to this path, e.g. `/oauth2/token`. Defaults to any path. */
+    path?: string | undefined
+    /** How many requests to fail. Defaults to 1. */
+    times?: number | undefined
+    message?: string | undefined
+}
+
+export interface FakeOAuthRequestLogEntry {
+    request: OAuthHttpRequestArgs
+    response: OAuthHttpResponse
+}
+
+/**
+ * Thrown to respond with a Twitch OAuth error body, and by {@link FakeOAuthHttpClient.authorize} for requests Twitch would show an error page for
+ */
+export class FakeOAuthError extends Error {
+    constructor(
+        public readonly status: number,
+        message: string,
+    ) {
+        super(message)
+        this.name = 'FakeOAuthError'
+    }
+}
+
+interface InjectedResponse {
+    status: number
+    path: string | undefined
+    times: number
+    message: string
+}
+
+const STATUS_TEXTS: Record<number, string> = {
+    200: 'OK',
+    400: 'Bad Request',
+    401: 'Unauthorized',
+    403: 'Forbidden',
+    404: 'Not Found',
+    429: 'Too Many Requests',
+    500: 'Internal Server Error',
+    503: 'Service Unavailable',
+}
+
+function generateToken(): string {
+    return crypto.randomUUID().replace(/-/g, '')
+}
+
+function generateUserCode(): string {
+    const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ'
+    return Array.from(crypto.getRandomValues(new Uint8Array(8)), byte => alphabet[byte % alphabet.length]).join('')
+}
+
+function parseScopes(scope: string | undefined): UserAccessTokenScope[] {
+    const scopes = scope ? scope.split(' ').filter(s => s) : []
+    const parsed = UserAccessTokenScopeSchema.array().safeParse(scopes)
+    if (!parsed.success) {
+        throw new FakeOAuthError(400, 'invalid scope requested')
+    }
+    return parsed.data
+}
+
+function respond(status: number, body?: unknown): OAuthHttpResponse {
+    return {
+        status,
+        statusText: STATUS_TEXTS[status] ?? '',
+        // Round-trip through JSON so callers can't mutate the state through the response
+        body: body === undefined ? undefined : JSON.parse(JSON.stringify(body)),
+    }
+}
+
+function respondWithError(status: number, message: string): OAuthHttpResponse {
+    return respond(status, { status, message })
+}
+
+/**
+ * Creates an empty state to seed a {@link FakeOAuthHttpClient} with
+ */
+export function createFakeOAuthState(state: Partial<FakeOAuthState> = {}): FakeOAuthState {
+    return {
+        clients: [],
+        users: [],
+        tokens: [],
+        authorizationCodes: [],
+        deviceCodes: [],
+        ...state,
+    }
+}
+
+/**
+ * An in-memory stand-in for Twitch's OAuth server to test auth flows and token providers offline. Pass it as the HTTP client of a strategy or provider. It implements the token (authorization code, refresh token, client credentials and device code grants), device, validate and revoke endpoints, and {@link authorize} plays the part of a user consenting in the browser. ID tokens are not issued.
+ */
+export class FakeOAuthHttpClient implements OAuthHttpClient {
+    readonly baseUrl: string
+    readonly state: FakeOAuthState
+    /**
+     * Every request the fake received, in order
+     */
+    readonly requests: FakeOAuthRequestLogEntry[] = []
+
+    private readonly options: {
+        userAccessTokenExpiresIn: number
+        appAccessTokenExpiresIn: number
+        deviceCodeExpiresIn: number
+        deviceCodeInterval: number
+        rotateRefreshTokens: boolean
+    }
+    private injectedResponses: InjectedResponse[] = []
+
+    /**
+     * @param options.state The clients, users and tokens to serve. Defaults to an empty state.
+     * @param options.baseUrl The origin authorization URLs are built from. Defaults to Twitch's, so URL checks in the strategies pass.
+     * @param options.userAccessTokenExpiresIn How long issued user access tokens last, in seconds. Defaults to 4 hours.
+     * @param options.appAccessTokenExpiresIn How long issued app access tokens last, in seconds. Defaults to 60 days.
+     * @param options.deviceCodeExpiresIn How long device codes last, in seconds. Defaults to 30 minutes.
+     * @param options.deviceCodeInterval The polling interval sent with device codes, in seconds. Polling faster is answered with `slow_down`. Defaults to 5 seconds.
+     * @param options.rotateRefreshTokens Whether refreshing issues a new refresh token and invalidates the old one. Defaults to true.
+     */
+    constructor(options: {
+        state?: FakeOAuthState,
+        baseUrl?: string,
+        userAccessTokenExpiresIn?: number,
+        appAccessTokenExpiresIn?: number,
+        deviceCodeExpiresIn?: number,
+        deviceCodeInterval?: number,
+        rotateRefreshTokens?: boolean,
+    } = {}) {
+        this.state = options.state ?? createFakeOAuthState()
+        this.baseUrl = options.baseUrl ?? TWITCH_OAUTH_BASE_URL
+        this.options = {
+            userAccessTokenExpiresIn: options.userAccessTokenExpiresIn ?? DEFAULT_USER_ACCESS_TOKEN_EXPIRES_IN,
+            appAccessTokenExpiresIn: options.appAccessTokenExpiresIn ?? DEFAULT_APP_ACCESS_TOKEN_EXPIRES_IN,
+            deviceCodeExpiresIn: options.deviceCodeExpiresIn ?? DEFAULT_DEVICE_CODE_EXPIRES_IN,
+            deviceCodeInterval: options.deviceCodeInterval ?? DEFAULT_DEVICE_CODE_INTERVAL,
+            rotateRefreshTokens: options.rotateRefreshTokens ?? true,
+        }
+    }
+
+    /**
+     * Issues a user access token directly, e.g. to start a provider with a token without going through an authorization flow.
+     * @param options.expiresIn How long the token lasts, in seconds. Defaults to the configured user access token lifetime.
+     */
+    issueUserAccessToken({ clientID, userID, scopes, expiresIn }: {
+        clientID: string
+        userID: string
+        scopes: UserAccessTokenScope[]
+        expiresIn?: number
+    }): UserAccessToken {
+        const token = this.createToken(this.findClient(clientID), userID, scopes, true, expiresIn ?? this.options.userAccessTokenExpiresIn)
+        return {
+            accessToken: token.accessToken,
+            expiry: token.expiresAt,
+            scopes: token.scopes,
+            refreshToken: token.refreshToken,
+            clientID: token.clientID,
+        }
+    }
+
+    /**
+     * Issues an app access token directly.
+     */
+    issueAppAccessToken(clientID: string): AppAccessToken {
+        const token = this.createToken(this.findClient(clientID), null, [], false, this.options.appAccessTokenExpiresIn)
+        return {
+            accessToken: token.accessToken,
+            expiry: token.expiresAt,
+            clientID: token.clientID,
+        }
+    }
+
+    /**
+     * Expires an access token now. Its refresh token keeps working.
+     */
+    expireToken(accessToken: string): void {
+        this.findToken(accessToken).expiresAt = Date.now()
+    }
+
+    /**
+     * Revokes an access token and its refresh token, as if the user disconnected the application.
+     */
+    revokeToken(accessToken: string): void {
+        const token = this.findToken(accessToken)
+        this.state.tokens = this.state.tokens.filter(t => t !== token)
+    }
+
+    /**
+     * Revokes every token a user granted, optionally only those of one client.
+     */
+    revokeUserTokens(userID: string, clientID?: string): void {
+        this.state.tokens = this.state.tokens.filter(t => t.userID !== userID || (clientID !== undefined && t.clientID !== clientID))
+    }
+
+    /**
+     * Plays the part of the user on the authorization page: given an authorization URL from `generateAuthorizationUrl`, returns the URL Twitch would redirect the browser to, with an authorization code for `response_type=code` or a token in the fragment for `response_type=token`.
+     * @param options.userID The user who consents. Defaults to the first user in the state.
+     * @param options.deny Whether the user clicks Cancel instead, which redirects with an `access_denied` error.
+     * @throws {FakeOAuthError} For requests Twitch shows an error page for instead of redirecting, like an unknown client or Redirect URI.
+     */
+    authorize(authorizationUrl: string, options: { userID?: string, deny?: boolean } = {}): string {
+        const url = new URL(authorizationUrl)
+        const params = url.searchParams
+        const client = this.findClient(params.get('client_id') ?? '')
+        const redirectURI = params.get('redirect_uri') ?? ''
+        if (!client.redirectURIs.includes(redirectURI)) {
+            throw new FakeOAuthError(400, 'redirect_mismatch')
+        }
+        const responseType = params.get('response_type')
+        const state = params.get('state')
+        const redirect = new URL(redirectURI)
+        const isImplicit = responseType === 'token' || responseType === 'token id_token'
+        const redirectParams = new URLSearchParams()
+        const finish = () => {
+            if (state !== null) {
+                redirectParams.append('state', state)
+            }
+            if (isImplicit) {
+                redirect.hash = redirectParams.toString()
+            } else {
+                for (const [key, value] of redirectParams) {
+                    redirect.searchParams.append(key, value)
+                }
+            }
+            return redirect.toString()
+        }
+
+        if (responseType !== 'code' && !isImplicit) {
+            redirectParams.append('error', 'unsupported_response_type')
+            redirectParams.append('error_description', 'response_type must be code or token')
+            return finish()
+        }
+        let scopes: UserAccessTokenScope[]
+        try {
+            scopes = parseScopes(params.get('scope') ?? undefined)
+        } catch {
+            redirectParams.append('error', 'invalid_scope')
+            redirectParams.append('error_description', 'Invalid scope requested')
+            return finish()
+        }
+        if (options.deny) {
+            redirectParams.append('error', 'access_denied')
+            redirectParams.append('error_description', 'The user denied you access')
+            return finish()
+        }
+        const user = options.userID !== undefined ? this.findUser(options.userID) : this.state.users[0]
+        if (!user) {
+            throw new FakeOAuthError(400, 'FakeOAuthHttpClient has no user to authorize with')
+        }
+
+        if (isImplicit) {
+            const token = this.createToken(client, user.id, scopes, false, this.options.userAccessTokenExpiresIn)
+            redirectParams.append('access_token', token.accessToken)
+            redirectParams.append('scope', scopes.join(' '))
+            redirectParams.append('token_type', 'bearer')
+        } else {
+            const code = generateToken()
+            this.state.authorizationCodes.push({
+                code,
+                clientID: client.clientID,
+                userID: user.id,
+                scopes,
+                redirectURI,
+                expiresAt: Date.now() + AUTHORIZATION_CODE_EXPIRES_IN * 1000,
+            })
+            redirectParams.append('code', code)
+            redirectParams.append('scope', scopes.join(' '))
+        }
+        return finish()
+    }
+
+    /**
+     * Plays the part of the user entering a device's user code on the activation page and authorizing it.
+     * @param userID The user who authorizes. Defaults to the first user in the state.
+     */
+    approveDeviceCode(userCode: string, userID?: string): void {
+        const deviceCode = this.findDeviceCode(userCode)
+        const user = userID !== undefined ? this.findUser(userID) : this.state.users[0]
+        if (!user) {
+            throw new FakeOAuthError(400, 'FakeOAuthHttpClient has no user to authorize with')
+        }
+        deviceCode.status = 'approved'
+        deviceCode.userID = user.id
+    }
+
+    /**
+     * Plays the part of the user declining a device's authorization request.
+     */
+    denyDeviceCode(userCode: string): void {
+        this.findDeviceCode(userCode).status = 'denied'
+    }
+
+    /**
+     * Makes upcoming requests fail with the given status instead of being handled, e.g. a 503 to exercise retries.
+     */
+    injectResponse(response: FakeOAuthInjectedResponse): void {
+        this.injectedResponses.push({
+            status: response.status,
+            path: response.path,
+            times: response.times ?? 1,
+            message: response.message ?? STATUS_TEXTS[response.status] ?? 'Injected error',
+        })
+    }
+
+    async fetch(args: OAuthHttpRequestArgs): Promise<OAuthHttpResponse> {
+        args.signal?.throwIfAborted()
+        const response = this.handle(args)
+        this.requests.push({ request: args, response })
+        return response
+    }
+
+    private handle(args: OAuthHttpRequestArgs): OAuthHttpResponse {
+        const injected = this.injectedResponses.find(r => r.path === undefined || r.path === args.path)
+        if (injected) {
+            if (--injected.times <= 0) {
+                this.injectedResponses = this.injectedResponses.filter(r => r !== injected)
+            }
+            return respondWithError(injected.status, injected.message)
+        }
+        // Twitch accepts the parameters in the query string as well as the form body
+        const params: Record<string, string | undefined> = { ...args.query, ...args.form }
+        try {
+            switch (`${args.method} ${args.path}`) {
+                case 'POST /oauth2/token':
+                    return respond(200, this.handleToken(params))
+                case 'POST /oauth2/device':
+                    return respond(200, this.handleDevice(params))
+                case 'GET /oauth2/validate':
+                    return this.handleValidate(args.headers ?? {})
+                case 'POST /oauth2/revoke':
+                    this.handleRevoke(params)
+                    return respond(200)
+            }
+            return respondWithError(404, `FakeOAuthHttpClient has no endpoint for ${args.method} ${args.path}`)
+        } catch (e) {
+            if (e instanceof FakeOAuthError) {
+                return respondWithError(e.status, e.message)
+            }
+            throw e
+        }
+    }
+
+    private handleToken(params: Record<string, string | undefined>): unknown {
+        const client = this.findClient(params['client_id'] ?? '')
+        switch (params['grant_type']) {
+            case 'authorization_code': {
+                this.authenticateClient(client, params['client_secret'], true)
+                const authorizationCode = this.state.authorizationCodes.find(c => c.code === params['code'] && c.clientID === client.clientID)
+                if (!authorizationCode || Date.now() >= authorizationCode.expiresAt) {
+                    throw new FakeOAuthError(400, 'Invalid authorization code')
+                }
+                if (authorizationCode.redirectURI !== params['redirect_uri']) {
+                    throw new FakeOAuthError(400, 'Parameter redirect_uri does not match registered URI')
+                }
+                // Codes can only be exchanged once
+                this.state.authorizationCodes = this.state.authorizationCodes.filter(c => c !== authorizationCode)
+                return this.getTokenResponse(this.createToken(client, authorizationCode.userID, authorizationCode.scopes, true, this.options.userAccessTokenExpiresIn))
+            }
+            case 'refresh_token': {
+                this.authenticateClient(client, params['client_secret'], false)
+                const token = this.state.tokens.find(t => t.refreshToken !== null && t.refreshToken === params['refresh_token'] && t.clientID === client.clientID)
+                if (!token) {
+                    throw new FakeOAuthError(400, 'Invalid refresh token')
+                }
+                token.accessToken = generateToken()
+                token.expiresAt = Date.now() + this.options.userAccessTokenExpiresIn * 1000
+                if (this.options.rotateRefreshTokens) {
+                    token.refreshToken = generateToken()
+                }
+                return this.getTokenResponse(token)
+            }
+            case 'client_credentials': {
+                this.authenticateClient(client, params['client_secret'], true)
+                const token = this.createToken(client, null, [], false, this.options.appAccessTokenExpiresIn)
+                return {
+                    access_token: token.accessToken,
+                    expires_in: this.options.appAccessTokenExpiresIn,
+                    token_type: 'bearer',
+                }
+            }
+            case 'urn:ietf:params:oauth:grant-type:device_code': {
+                this.authenticateClient(client, params['client_secret'], false)
+                const deviceCode = this.state.deviceCodes.find(c => c.deviceCode === params['device_code'] && c.clientID === client.clientID)
+                if (!deviceCode || Date.now() >= deviceCode.expiresAt) {
+                    throw new FakeOAuthError(400, 'invalid device code')
+                }
+                const now = Date.now()
+                const polledTooSoon = deviceCode.lastPolledAt !== null && now - deviceCode.lastPolledAt < this.options.deviceCodeInterval * 1000
+                deviceCode.lastPolledAt = now
+                if (deviceCode.status === 'denied') {
+                    this.state.deviceCodes = this.state.deviceCodes.filter(c => c !== deviceCode)
+                    throw new FakeOAuthError(400, 'access_denied')
+                }
+                if (deviceCode.status === 'pending') {
+                    throw new FakeOAuthError(400, polledTooSoon ? 'slow_down' : 'authorization_pending')
+                }
+                // Device codes can only be exchanged once
+                this.state.deviceCodes = this.state.deviceCodes.filter(c => c !== deviceCode)
+                return this.getTokenResponse(this.createToken(client, deviceCode.userID!, deviceCode.scopes, true, this.options.userAccessTokenExpiresIn))
+            }
+        }
+        throw new FakeOAuthError(400, 'Invalid grant type')
+    }
+
+    private handleDevice(params: Record<string, string | undefined>): unknown {
+        const client = this.findClient(params['client_id'] ?? '')
+        const deviceCode: FakeOAuthDeviceCode = {
+            deviceCode: generateToken(),
+            userCode: generateUserCode(),
+            clientID: client.clientID,
+            scopes: parseScopes(params['scopes']),
+            expiresAt: Date.now() + this.options.deviceCodeExpiresIn * 1000,
+            status: 'pending',
+            userID: null,
+            lastPolledAt: null,
+        }
+        this.state.deviceCodes.push(deviceCode)
+        return {
+            device_code: deviceCode.deviceCode,
+            expires_in: this.options.deviceCodeExpiresIn,
+            interval: this.options.deviceCodeInterval,
+            user_code: deviceCode.userCode,
+            verification_uri: `${DEVICE_VERIFICATION_URL}?public=true&device-code=${deviceCode.userCode}`,
+        }
+    }
+
+    private handleValidate(headers: Record<string, string>): OAuthHttpResponse {
+        // Twitch documents the OAuth scheme for this endpoint but accepts Bearer as well
+        const accessToken = headers['Authorization']?.replace(/^(OAuth|Bearer) /, '')
+        const token = this.state.tokens.find(t => t.accessToken === accessToken)
+        if (!token || Date.now() >= token.expiresAt) {
+            return respondWithError(401, 'invalid access token')
+        }
+        const user = token.userID !== null ? this.state.users.find(u => u.id === token.userID) : undefined
+        return respond(200, {
+            client_id: token.clientID,
+            ...(token.userID !== null ? { login: user?.login ?? '', user_id: token.userID } : {}),
+            scopes: token.scopes,
+            expires_in: Math.max(0, Math.floor((token.expiresAt - Date.now()) / 1000)),
+        })
+    }
+
+    private handleRevoke(params: Record<string, string | undefined>): void {
+        const client = this.findClient(params['client_id'] ?? '')
+        const token = this.state.tokens.find(t => t.accessToken === params['token'])
+        if (!token) {
+            throw new FakeOAuthError(400, 'Invalid token')
+        }
+        if (token.clientID !== client.clientID) {
+            throw new FakeOAuthError(400, 'Invalid client')
+        }
+        this.state.tokens = this.state.tokens.filter(t => t !== token)
+    }
+
+    private authenticateClient(client: FakeOAuthClient, clientSecret: string | undefined, secretRequired: boolean): void {
+        if (client.clientSecret === null) {
+            if (secretRequired) {
+                throw new FakeOAuthError(400, 'Public clients cannot use this grant type')
+            }
+            return
+        }
+        if (clientSecret !== client.clientSecret) {
+            throw new FakeOAuthError(403, 'invalid client secret')
+        }
+    }
+
+    private createToken(client: FakeOAuthClient, userID: string | null, scopes: UserAccessTokenScope[], withRefreshToken: boolean, expiresIn: number): FakeOAuthToken {
+        const token: FakeOAuthToken = {
+            accessToken: generateToken(),
+            refreshToken: withRefreshToken ? generateToken() : null,
+            clientID: client.clientID,
+            userID,
+            scopes: [...scopes],
+            expiresAt: Date.now() + expiresIn * 1000,
+        }
+        this.state.tokens.push(token)
+        return token
+    }
+
+    private getTokenResponse(token: FakeOAuthToken): unknown {
+        return {
+            access_token: token.accessToken,
+            expires_in: Math.max(0, Math.floor((token.expiresAt - Date.now()) / 1000)),
+            ...(token.refreshToken !== null ? { refresh_token: token.refreshToken } : {}),
+            scope: token.scopes,
+            token_type: 'bearer',
+        }
+    }
+
+    private findClient(clientID: string): FakeOAuthClient {
+        const client = this.state.clients.find(c => c.clientID === clientID)
+        if (!client) {
+            throw new FakeOAuthError(400, 'invalid client')
+        }
+        return client
+    }
+
+    private findUser(userID: string): FakeOAuthUser {
+        const user = this.state.users.find(u => u.id === userID)
+        if (!user) {
+            throw new FakeOAuthError(400, `User ${userID} does not exist`)
+        }
+        return user
+    }
+
+    private findToken(accessToken: string): FakeOAuthToken {
+        const token = this.state.tokens.find(t => t.accessToken === accessToken)
+        if (!token) {
+            throw new FakeOAuthError(400, 'Invalid token')
+        }
+        return token
+    }
+
+    private findDeviceCode(userCode: string): FakeOAuthDeviceCode {
+        const deviceCode = this.state.deviceCodes.find(c => c.userCode === userCode)
+        if (!deviceCode) {
+            throw new FakeOAuthError(400, `Device code for user code ${userCode} does not exist`)
+        }
+        return deviceCode
+    }
+}
@@ -0,0 +1,156 @@
+import { isAbortError } from '../utils/abort.js'
+import { wait } from '../utils/async.js'
+import { safeJsonParse } from '../utils/data.js'
+
+/**
+ * The origin of Twitch's OAuth server
+ */
+export const TWITCH_OAUTH_BASE_URL = 'https://id.twitch.tv'
+
+export interface OAuthHttpRequestArgs {
+    method: 'GET' | 'POST'
+    /**
+     * The path on the OAuth server, e.g. `/oauth2/token`
+     */
+    path: string
+    headers?: Record<string, string> | undefined
+    query?: Record<string, string> | undefined
+    /**
+     * Sent as an `application/x-www-form-urlencoded` body
+     */
+    form?: Record<string, string> | undefined
+    signal?: AbortSignal | undefined
+}
+
+export interface OAuthHttpResponse {
+    status: number
+    statusText: string
+    /**
+     * The response body parsed as JSON, or undefined if it was empty or not JSON
+     */
+    body?: unknown
+}
+
+/**
+ * Sends the requests of the OAuth flow strategies and token providers, e.g. to route them through a proxy, instrument them, or point them at a mock OAuth server in tests.
+ */
+export interface OAuthHttpClient {
+    /**
+     * The origin of the OAuth server. URLs the user is sent to, like authorization URLs, are built from it too.
+     */
+    readonly baseUrl: string
+    fetch: (args: OAuthHttpRequestArgs) => Promise<OAuthHttpResponse>
+}
+
+export interface OAuthHttpClientOptions {
+    /**
+     * The origin of the OAuth server. Defaults to Twitch's.
+     */
+    baseUrl?: string
+    /**
+     * How many times a failed GET request is retried. Defaults to 2.
+     */
+    maxRetries?: number
+    /**
+     * The delay before the first retry, doubled for each retry after that. Defaults to 500ms. A 429 response waits for the reset announced in its headers instead.
+     */
+    baseDelayMs?: number
+}
+
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504]
+
+export function isSuccessfulResponse(response: OAuthHttpResponse): boolean {
+    return response.status >= 200 && response.status < 300
+}
+
+/**
+ * Returns how long a 429 response asks to wait from its `Retry-After` or `Ratelimit-Reset` header, or null if it has neither
+ */
+function getRateLimitResetDelay(headers: Headers): number | null {
+    const retryAfter = headers.get('Retry-After')
+    if (retryAfter && /^\d+$/.test(retryAfter)) {
+        return parseInt(retryAfter, 10) * 1000
+    }
+    const reset = headers.get('Ratelimit-Reset')
+    if (reset && /^\d+$/.test(reset)) {
+        return Math.max(parseInt(reset, 10) * 1000 - Date.now(), 0)
+    }
+    return null
+}
+
+/**
+ * Sends OAuth requests with `fetch`. Only GET requests, like token validation, are retried after network errors and 429 or 5xx responses: a POST may already have consumed an authorization code or rotated a refresh token, and the token providers retry refreshes themselves. A 429 is retried once its rate limit resets.
+ *
+ * The OAuth server is not rate limited through the Helix client's rate limit manager: Twitch limits it separately from the per-token Helix buckets, OAuth requests don't use up Helix points, and the Helix buckets are only learned from Helix response headers, so sharing them would only hold back one API for the other's limits.
+ */
+export class DefaultOAuthHttpClient implements OAuthHttpClient {
+    readonly baseUrl: string
+    private readonly options: Required<Omit<OAuthHttpClientOptions, 'baseUrl'>>
+
+    constructor(options: OAuthHttpClientOptions = {}) {
+        // Paths are joined onto the base URL, so a trailing slash would double up
+        this.baseUrl = (options.baseUrl ?? TWITCH_OAUTH_BASE_URL).replace(/\/+$/, '')
+        this.options = {
+            maxRetries: 2,
+            baseDelayMs: 500,
+            ...options,
+        }
+    }
+
+    async fetch(args: OAuthHttpRequestArgs): Promise<OAuthHttpResponse> {
+        const maxRetries = args.method === 'GET' ? this.options.maxRetries : 0
+        for (let retryCount = 0; ; retryCount++) {
+            let response: OAuthHttpResponse
+            let rateLimitResetDelay: number | null
+            try {
+                ({ response, rateLimitResetDelay } = await this.send(args))
+            } catch (e) {
+                if (isAbortError(e) || retryCount >= maxRetries) {
+                    throw e
+                }
+                await wait(this.options.baseDelayMs * 2 ** retryCount, args.signal)
+                continue
+            }
+            if (!RETRYABLE_STATUSES.includes(response.status) || retryCount >= maxRetries) {
+                return response
+            }
+            await wait(rateLimitResetDelay ?? this.options.baseDelayMs * 2 ** retryCount, args.signal)
+        }
+    }
+
+    private async send({ method, path, headers, query, form, signal }: OAuthHttpRequestArgs): Promise<{ response: OAuthHttpResponse, rateLimitResetDelay: number | null }> {
+        const url = new URL(path, this.baseUrl)
+        for (const [key, value] of Object.entries(query ?? {})) {
+            url.searchParams.append(key, value)
+        }
+        const response = await fetch(url.toString(), {
+            method,
+            headers: {
+                ...(form ? {
+                    'Content-Type': 'application/x-www-form-urlencoded',
+                } : {}),
+                ...headers,
+            },
+            body: form ? new URLSearchParams(form).toString() : null,
+            signal: signal ?? null,
+        })
+        const text = await response.text()
+        return {
+            response: {
+                status: response.status,
+                statusText: response.statusText,
+                body: text ? safeJsonParse(text) : undefined,
+            },
+            rateLimitResetDelay: response.status === 429 ? getRateLimitResetDelay(response.headers) : null,
+        }
+    }
+}
+
+let defaultOAuthHttpClient: OAuthHttpClient | null = null
+
+/**
+ * Returns the client used when none is passed to a strategy or provider
+ */
+export function getDefaultOAuthHttpClient(): OAuthHttpClient {
+    return defaultOAuthHttpClient ??= new DefaultOAuthHttpClient()
+}
@@ -0,0 +1,208 @@
+import { getAbortError } from '../utils/abort.js'
+import { generateAntiCSRFToken, type AuthorizationCodeGrantFlowStrategy } from './auth.js'
+import { verifyIdToken, type OpenIDKeySource } from './oidc.js'
+import type { UserAccessToken, UserAccessTokenScope } from './types.js'
+
+// Loopback redirect flow for CLI and desktop apps:
+// 1. Start a temporary HTTP listener on the localhost port and path of the strategy's Redirect URI
+// 2. Hand the authorization URL with a fresh anti-CSRF state to the caller to open in a browser
+// 3. Twitch redirects the browser to the listener with the authorization code and state
+// 4. Check the state, exchange the code for a token, show a result page and shut the listener down
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000
+
+const LOOPBACK_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]']
+
+/**
+ * The subset of a request from Node's `http` module used by the loopback server
+ */
+export interface LoopbackRequest {
+    url?: string | undefined
+}
+
+/**
+ * The subset of a response from Node's `http` module used by the loopback server
+ */
+export interface LoopbackResponse {
+    writeHead(statusCode: number, headers: Record<string, string>): unknown
+    end(body: string): unknown
+}
+
+/**
+ * The subset of a server from Node's `http` module used by the loopback server
+ */
+export interface LoopbackServer {
+    listen(port: number, hostname: string, listeningListener: () => void): unknown
+    close(callback?: (error?: Error) => void): unknown
+    once(event: 'error', listener: (error: Error) => void): unknown
+    closeAllConnections?(): void
+}
+
+/**
+ * The subset of Node's `http` module used to listen for the redirect. Pass the module itself, e.g. `import * as http from 'node:http'`.
+ */
+export interface LoopbackHttpModule {
+    createServer(requestListener: (request: LoopbackRequest, response: LoopbackResponse) => void): LoopbackServer
+}
+
+/**
+ * Thrown when the user does not complete the authorization before the loopback server times out.
+ */
+export class AuthorizationTimeoutError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'AuthorizationTimeoutError'
+    }
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`)
+}
+
+function renderPage(title: string, message: string): string {
+    return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head><body style="font-family: sans-serif; text-align: center; margin-top: 4em"><h1>${escapeHtml(title)}</h1><p>${escapeHtml(message)}</p></body></html>`
+}
+
+function respond(response: LoopbackResponse, statusCode: number, title: string, message: string) {
+    response.writeHead(statusCode, {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store',
+    })
+    response.end(renderPage(title, message))
+}
+
+/**
+ * Catches the Authorization Code Grant Flow redirect on a temporary `http://localhost:<port>` listener, so CLI and desktop apps don't need their own HTTP server. The strategy's Redirect URI must point at localhost, with a port, and be registered for your application.
+ */
+export class LoopbackAuthorizationServer {
+    /**
+     * @param services.http Node's `http` module, or anything with a compatible `createServer`.
+     * @param strategy The strategy to generate the authorization URL and exchange the code with.
+     */
+    constructor(
+        private readonly services: {
+            http: LoopbackHttpModule,
+        },
+        private readonly strategy: AuthorizationCodeGrantFlowStrategy,
+    ) {
+
+    }
+
+    /**
+     * Starts the listener, passes the authorization URL to `openUrl`, and resolves with the user access token once the user authorized the application. The listener shuts down on success, failure, timeout or abort.
+     * @param options.scopes The scopes to request.
+     * @param options.openUrl Called with the authorization URL once the listener is ready, e.g. to open it in the user's browser or print it.
+     * @param options.forceVerify Whether to force the user to re-authorize even if they already have.
+     * @param options.timeoutMs How long to wait for the redirect. Defaults to 5 minutes.
+     * @param options.signal Aborts waiting for the redirect.
+     * @param options.openIDKeySource Where to get the keys to verify the ID token with when the `openid` scope is requested. Defaults to fetching Twitch's key set.
+     */
+    async authorize({ scopes, openUrl, forceVerify, timeoutMs = DEFAULT_TIMEOUT_MS, signal, openIDKeySource }: {
+        scopes: UserAccessTokenScope[]
+        openUrl: (url: string) => void | Promise<void>
+        forceVerify?: boolean
+        timeoutMs?: number
+        signal?: AbortSignal
+        openIDKeySource?: OpenIDKeySource
+    }): Promise<UserAccessToken> {
+        signal?.throwIfAborted()
+        const redirectURI = this.strategy.getRedirectURI()
+        if (!redirectURI) {
+            throw new Error("Redirect URI is required for the loopback authorization server")
+        }
+        const redirectUrl = new URL(redirectURI)
+        if (redirectUrl.protocol !== 'http:' || !LOOPBACK_HOSTNAMES.includes(redirectUrl.hostname) || !redirectUrl.port) {
+            throw new Error(`Redirect URI must be an http://localhost:<port> URL for the loopback authorization server: ${redirectURI}`)
+        }
+
+        const state = generateAntiCSRFToken()
+        const { url, nonce } = this.strategy.generateAuthorizationUrl({ scopes, state, forceVerify: forceVerify ?? false })
+
+        return new Promise<UserAccessToken>((resolve, reject) => {
+            let settled = false
+            let timeoutID: ReturnType<typeof setTimeout> | null = null
+            const finish = (error: Error | null, token?: UserAccessToken) => {
+                if (settled) {
+                    return
+                }
+                settled = true
+                if (timeoutID) {
+                    clearTimeout(timeoutID)
+                }
+                signal?.removeEventListener('abort', onAbort)
+                server.close()
+                // Browsers keep connections alive, which would otherwise hold the listener open
+                server.closeAllConnections?.()
+                if (error) {
+                    reject(error)
+                } else {
+                    resolve(token!)
+                }
+            }
+            const onAbort = () => finish(getAbortError())
+
+            const server = this.services.http.createServer((request, response) => {
+                this.handleRequest(request, response, redirectUrl, state, nonce, openIDKeySource).then(token => {
+                    if (token) {
+                        finish(null, token)
+                    }
+                }, (error: unknown) => {
+                    finish(error instanceof Error ? error : new Error(String(error)))
+                })
+            })
+            server.once('error', error => finish(error))
+            signal?.addEventListener('abort', onAbort, { once: true })
+            timeoutID = setTimeout(() => finish(new AuthorizationTimeoutError(`Timed out after ${timeoutMs}ms waiting for the user to authorize the application`)), timeoutMs)
+
+            // Bracketed IPv6 hostnames from URLs have to be unwrapped to listen on them
+            server.listen(parseInt(redirectUrl.port, 10), redirectUrl.hostname.replace(/^\[(.*)\]$/, '$1'), () => {
+                if (settled) {
+                    return
+                }
+                Promise.resolve(openUrl(url)).catch((error: unknown) => finish(error instanceof Error ? error : new Error(String(error))))
+            })
+        })
+    }
+
+    /**
+     * Handles a request to the listener. Resolves with the token once a valid redirect was handled, with null for unrelated requests, and rejects if the authorization failed. When the `openid` scope was requested, the ID token is verified against the nonce of the authorization request.
+     */
+    private async handleRequest(request: LoopbackRequest, response: LoopbackResponse, redirectUrl: URL, state: string, nonce: string | undefined, openIDKeySource: OpenIDKeySource | undefined): Promise<UserAccessToken | null> {
+        const requestUrl = new URL(request.url ?? '/', redirectUrl.origin)
+        if (requestUrl.pathname !== redirectUrl.pathname) {
+            // Browsers also ask for things like /favicon.ico
+            respond(response, 404, 'Not Found', 'This page does not exist.')
+            return null
+        }
+        // Any local page can send requests here, so anything without the exact state is ignored instead of exchanging a planted code or failing the flow
+        if (requestUrl.searchParams.get('state') !== state) {
+            respond(response, 400, 'Invalid request', 'This request does not belong to the authorization in progress.')
+            return null
+        }
+        let result: ReturnType<AuthorizationCodeGrantFlowStrategy['tryRetrieveAuthorizationCodeAtRedirectUri']>
+        try {
+            result = this.strategy.tryRetrieveAuthorizationCodeAtRedirectUri(requestUrl.searchParams, state)
+        } catch (e) {
+            respond(response, 400, 'Authorization failed', 'Twitch did not authorize the application. You can close this window.')
+            throw e
+        }
+        if (!result) {
+            respond(response, 400, 'Invalid request', 'This request does not belong to the authorization in progress.')
+            return null
+        }
+        try {
+            const token = await this.strategy.exchangeAuthorizationCodeForToken(result.code)
+            if (nonce !== undefined) {
+                if (!token.idToken) {
+                    throw new Error("Twitch did not return an ID token for the openid scope")
+                }
+                await verifyIdToken(token.idToken, { clientID: this.strategy.getClientID(), nonce, keySource: openIDKeySource, httpClient: this.strategy.getHttpClient() })
+            }
+            respond(response, 200, 'Authorization complete', 'You can close this window and return to the application.')
+            return token
+        } catch (e) {
+            respond(response, 500, 'Authorization failed', 'The authorization code could not be exchanged for a token. You can close this window.')
+            throw e
+        }
+    }
+}
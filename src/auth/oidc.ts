@@ -0,0 +1,303 @@
+import { z } from "zod"
+import { getDefaultOAuthHttpClient, isSuccessfulResponse, type OAuthHttpClient } from './http.js'
+
+// OpenID Connect support for using Twitch as a login provider:
+// 1. Request the openid scope, optionally with claims, through the Authorization Code or Implicit Grant Flow
+// 2. Verify the ID token returned with the access token against Twitch's JSON Web Key Set, including its issuer, audience and nonce
+// 3. Optionally fetch the same claims from the UserInfo endpoint with the access token
+
+const OPENID_KEYS_PATH = '/oauth2/keys'
+const OPENID_USERINFO_PATH = '/oauth2/userinfo'
+
+// Twitch only signs ID tokens with RS256; accepting other algorithms would allow algorithm confusion attacks
+const SUPPORTED_ALGORITHM = 'RS256'
+
+const KEY_CACHE_DURATION_MS = 60 * 60 * 1000
+
+const JsonWebKeySchema = z.object({
+    kid: z.string().optional(),
+    kty: z.string(),
+    alg: z.string().optional(),
+    use: z.string().optional(),
+    n: z.string(),
+    e: z.string(),
+})
+
+const JsonWebKeySetSchema = z.object({
+    keys: z.array(z.unknown()),
+})
+
+const IdTokenHeaderSchema = z.object({
+    alg: z.string(),
+    kid: z.string().optional(),
+    typ: z.string().optional(),
+})
+
+const IdTokenClaimsSchema = z.object({
+    iss: z.string(),
+    sub: z.string(),
+    aud: z.union([z.string(), z.array(z.string())]),
+    exp: z.number(),
+    iat: z.number(),
+    azp: z.string().optional(),
+    nonce: z.string().optional(),
+    email: z.string().optional(),
+    email_verified: z.boolean().optional(),
+    picture: z.string().optional(),
+    preferred_username: z.string().optional(),
+    updated_at: z.string().optional(),
+})
+
+const UserInfoSchema = z.object({
+    aud: z.union([z.string(), z.array(z.string())]),
+    exp: z.number(),
+    iat: z.number(),
+    iss: z.string(),
+    sub: z.string(),
+    email: z.string().optional(),
+    email_verified: z.boolean().optional(),
+    picture: z.string().optional(),
+    preferred_username: z.string().optional(),
+    updated_at: z.string().optional(),
+})
+
+/**
+ * An RSA public key from a JSON Web Key Set
+ */
+export type OpenIDJsonWebKey = z.infer<typeof JsonWebKeySchema>
+
+/**
+ * The verified claims of an ID token. `sub` is the user's ID; the optional claims are only present when requested through the `claims` authorization parameter.
+ */
+export type OpenIDIdTokenClaims = z.infer<typeof IdTokenClaimsSchema>
+
+/**
+ * The claims returned by the UserInfo endpoint. `sub` is the user's ID; the optional claims are only present when requested through the `claims` authorization parameter.
+ */
+export type OpenIDUserInfo = z.infer<typeof UserInfoSchema>
+
+/**
+ * Supplies the public keys ID tokens are verified against.
+ */
+export interface OpenIDKeySource {
+    /**
+     * Returns the current keys.
+     * @param forceRefresh Whether to bypass any cache, e.g. because a token was signed with an unknown key after a key rotation.
+     */
+    getKeys(forceRefresh: boolean): Promise<OpenIDJsonWebKey[]>
+}
+
+/**
+ * Thrown when a request to one of the OpenID Connect endpoints fails
+ */
+export class OpenIDRequestError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number,
+    ) {
+        super(message)
+        this.name = "OpenIDRequestError"
+    }
+}
+
+/**
+ * Returns the issuer of ID tokens from an OAuth server
+ */
+function getIssuer(httpClient: OAuthHttpClient): string {
+    return `${httpClient.baseUrl}/oauth2`
+}
+
+/**
+ * Fetches the OAuth server's JSON Web Key Set and caches it for an hour.
+ */
+export class TwitchOpenIDKeySource implements OpenIDKeySource {
+    private keys: OpenIDJsonWebKey[] | null = null
+    private keysExpiry = 0
+
+    /**
+     * @param httpClient The client to fetch the key set with. Defaults to the default OAuth HTTP client.
+     */
+    constructor(
+        private readonly httpClient: OAuthHttpClient = getDefaultOAuthHttpClient(),
+    ) {
+
+    }
+
+    async getKeys(forceRefresh: boolean): Promise<OpenIDJsonWebKey[]> {
+        if (this.keys && !forceRefresh && Date.now() < this.keysExpiry) {
+            return this.keys
+        }
+        const response = await this.httpClient.fetch({
+            method: 'GET',
+            path: OPENID_KEYS_PATH,
+        })
+        if (!isSuccessfulResponse(response)) {
+            throw new OpenIDRequestError(`Failed to fetch OpenID key set: ${response.status} ${response.statusText}`, response.status)
+        }
+        const parsed = JsonWebKeySetSchema.parse(response.body)
+        // Skip keys of other types instead of failing, so a new key type in the set doesn't break verification
+        this.keys = parsed.keys.flatMap(key => {
+            const result = JsonWebKeySchema.safeParse(key)
+            return result.success && result.data.kty === 'RSA' ? [result.data] : []
+        })
+        this.keysExpiry = Date.now() + KEY_CACHE_DURATION_MS
+        return this.keys
+    }
+}
+
+/**
+ * Serves a fixed set of keys, e.g. a local key set to verify ID tokens offline in tests.
+ */
+export class StaticOpenIDKeySource implements OpenIDKeySource {
+    /**
+     * @param keys The keys to verify ID tokens against.
+     */
+    constructor(
+        private readonly keys: OpenIDJsonWebKey[],
+    ) {
+
+    }
+
+    async getKeys(): Promise<OpenIDJsonWebKey[]> {
+        return this.keys
+    }
+}
+
+export type OpenIDTokenVerificationFailure = 'malformed' | 'unsupported_algorithm' | 'unknown_key' | 'invalid_signature' | 'invalid_issuer' | 'invalid_audience' | 'expired' | 'invalid_nonce'
+
+/**
+ * Thrown when an ID token fails verification. Its claims must not be trusted.
+ */
+export class OpenIDTokenVerificationError extends Error {
+    constructor(
+        message: string,
+        public readonly reason: OpenIDTokenVerificationFailure,
+    ) {
+        super(message)
+        this.name = "OpenIDTokenVerificationError"
+    }
+}
+
+// Key sets are cached per client, so that ID tokens from a mock server aren't checked against Twitch's keys
+const defaultKeySources = new WeakMap<OAuthHttpClient, OpenIDKeySource>()
+
+function getDefaultKeySource(httpClient: OAuthHttpClient): OpenIDKeySource {
+    let keySource = defaultKeySources.get(httpClient)
+    if (!keySource) {
+        keySource = new TwitchOpenIDKeySource(httpClient)
+        defaultKeySources.set(httpClient, keySource)
+    }
+    return keySource
+}
+
+function decodeBase64Url(value: string): Uint8Array<ArrayBuffer> {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=')
+    return Uint8Array.from(atob(base64), char => char.charCodeAt(0))
+}
+
+function decodeJsonSegment(segment: string): unknown {
+    try {
+        return JSON.parse(new TextDecoder().decode(decodeBase64Url(segment)))
+    } catch {
+        throw new OpenIDTokenVerificationError("ID token is not a valid JSON Web Token", 'malformed')
+    }
+}
+
+/**
+ * Verifies an ID token's signature against the key set, then checks that it was issued by Twitch for your application, hasn't expired, and carries the nonce of the authorization request.
+ * @param idToken The ID token, e.g. `UserAccessToken.idToken`.
+ * @param options.clientID Your Twitch application's Client ID, which must be the token's audience and, if the token names one, its authorized party.
+ * @param options.nonce The nonce returned by `generateAuthorizationUrl`. Pass null only for tokens from a request that sent no nonce; otherwise a token issued for another authorization request would be accepted.
+ * @param options.keySource Where to get the public keys from. Defaults to fetching the key set through `httpClient`.
+ * @param options.httpClient The client of the OAuth server that issued the token, which determines the expected issuer. Defaults to the default OAuth HTTP client.
+ * @param options.clockToleranceSeconds How far the token's expiry may be in the past to allow for clock skew. Defaults to 60 seconds.
+ * @returns The verified claims.
+ */
+export async function verifyIdToken(idToken: string, options: {
+    clientID: string
+    nonce: string | null
+    keySource?: OpenIDKeySource | undefined
+    httpClient?: OAuthHttpClient | undefined
+    clockToleranceSeconds?: number | undefined
+}): Promise<OpenIDIdTokenClaims> {
+    const httpClient = options.httpClient ?? getDefaultOAuthHttpClient()
+    const segments = idToken.split('.')
+    if (segments.length !== 3) {
+        throw new OpenIDTokenVerificationError("ID token is not a valid JSON Web Token", 'malformed')
+    }
+    const [headerSegment, payloadSegment, signatureSegment] = segments as [string, string, string]
+    const header = IdTokenHeaderSchema.safeParse(decodeJsonSegment(headerSegment))
+    if (!header.success) {
+        throw new OpenIDTokenVerificationError("ID token has an invalid header", 'malformed')
+    }
+    if (header.data.alg !== SUPPORTED_ALGORITHM) {
+        throw new OpenIDTokenVerificationError(`ID token is signed with unsupported algorithm ${header.data.alg}`, 'unsupported_algorithm')
+    }
+
+    const keySource = options.keySource ?? getDefaultKeySource(httpClient)
+    const kid = header.data.kid
+    // Without a key ID the key is ambiguous unless the set only has one, and trying each key would accept a signature by any of them
+    const findKey = (keys: OpenIDJsonWebKey[]) => kid === undefined
+        ? (keys.length === 1 ? keys[0] : undefined)
+        : keys.find(key => key.kid === kid)
+    // An unknown key ID usually means Twitch rotated its keys since they were cached
+    const jwk = findKey(await keySource.getKeys(false)) ?? findKey(await keySource.getKeys(true))
+    if (!jwk) {
+        throw new OpenIDTokenVerificationError(kid === undefined
+            ? "ID token header has no key ID and the key set doesn't have exactly one key"
+            : `No key found to verify ID token signed with key ${kid}`, 'unknown_key')
+    }
+    const algorithm = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }
+    const key = await crypto.subtle.importKey('jwk', { kty: jwk.kty, n: jwk.n, e: jwk.e }, algorithm, false, ['verify'])
+    const isValid = await crypto.subtle.verify(algorithm, key, decodeBase64Url(signatureSegment), new TextEncoder().encode(`${headerSegment}.${payloadSegment}`))
+    if (!isValid) {
+        throw new OpenIDTokenVerificationError("ID token signature is invalid", 'invalid_signature')
+    }
+
+    const claims = IdTokenClaimsSchema.safeParse(decodeJsonSegment(payloadSegment))
+    if (!claims.success) {
+        throw new OpenIDTokenVerificationError("ID token is missing required claims", 'malformed')
+    }
+    const issuer = getIssuer(httpClient)
+    if (claims.data.iss !== issuer) {
+        throw new OpenIDTokenVerificationError(`ID token was issued by ${claims.data.iss} instead of ${issuer}`, 'invalid_issuer')
+    }
+    const audience = Array.isArray(claims.data.aud) ? claims.data.aud : [claims.data.aud]
+    if (!audience.includes(options.clientID)) {
+        throw new OpenIDTokenVerificationError(`ID token was not issued for Client ID ${options.clientID}`, 'invalid_audience')
+    }
+    // With several audiences, the authorized party tells which of them the token was actually issued to
+    if (audience.length > 1 && claims.data.azp === undefined) {
+        throw new OpenIDTokenVerificationError("ID token has several audiences but no authorized party", 'invalid_audience')
+    }
+    if (claims.data.azp !== undefined && claims.data.azp !== options.clientID) {
+        throw new OpenIDTokenVerificationError(`ID token was issued to ${claims.data.azp} instead of Client ID ${options.clientID}`, 'invalid_audience')
+    }
+    const clockToleranceSeconds = options.clockToleranceSeconds ?? 60
+    if (claims.data.exp + clockToleranceSeconds <= Date.now() / 1000) {
+        throw new OpenIDTokenVerificationError("ID token has expired", 'expired')
+    }
+    if (options.nonce !== null && claims.data.nonce !== options.nonce) {
+        throw new OpenIDTokenVerificationError("ID token nonce does not match the authorization request", 'invalid_nonce')
+    }
+    return claims.data
+}
+
+/**
+ * Fetches the claims about the authorized user from the OpenID Connect UserInfo endpoint. The access token must have the `openid` scope.
+ * @param accessToken The user access token string.
+ * @param httpClient The client to send the request with. Defaults to the default OAuth HTTP client.
+ */
+export async function fetchOpenIDUserInfo(accessToken: string, httpClient: OAuthHttpClient = getDefaultOAuthHttpClient()): Promise<OpenIDUserInfo> {
+    const response = await httpClient.fetch({
+        method: 'GET',
+        path: OPENID_USERINFO_PATH,
+        headers: {
+            'Authorization': `Bearer ${accessToken}`,
+        },
+    })
+    if (!isSuccessfulResponse(response)) {
+        throw new OpenIDRequestError(`Failed to fetch OpenID user info: ${response.status} ${response.statusText}`, response.status)
+    }
+    return UserInfoSchema.parse(response.body)
+}
@@ -0,0 +1,167 @@
+import { ALL_SUBSCRIPTION_TYPES, type EventTypeKeys } from '../eventsub/subtypes.js'
+import { ALL_ENDPOINTS } from '../helix/types.js'
+import { DefaultUserAccessTokenProvider, type UserAccessTokenFlowStrategy, type UserAccessTokenProvider } from './auth.js'
+import { isScopeSetSatisfied } from './scopes.js'
+import type { TokenStore } from './store.js'
+import type { UserAccessToken, UserAccessTokenScope, UserAccessTokenScopeSet } from './types.js'
+
+type EndpointName = keyof typeof ALL_ENDPOINTS
+
+/**
+ * Thrown when none of the registered tokens can be used for a call: the call doesn't name the user it is made as, no token is registered for that user, or their token lacks the required scopes.
+ */
+export class NoMatchingUserAccessTokenError extends Error {
+    constructor(
+        message: string,
+        /** The endpoint name or event type key the token was resolved for. */
+        public readonly target: string,
+        /** The user the call is made as, or null if the call doesn't name one. */
+        public readonly userID: string | null,
+        public readonly requiredScopes: UserAccessTokenScopeSet | null,
+    ) {
+        super(message)
+        this.name = 'NoMatchingUserAccessTokenError'
+    }
+}
+
+/**
+ * Returns the user a call is made as: the value of the field the endpoint or subscription type declares as its acting user, or null if the call doesn't set it.
+ */
+function getActingUserID(sources: unknown[], field: string): string | null {
+    for (const source of sources) {
+        const value = source && typeof source === 'object' ? (source as Record<string, unknown>)[field] : undefined
+        if (typeof value === 'string') {
+            return value
+        }
+    }
+    return null
+}
+
+/**
+ * Holds the user access token providers of many accounts by Twitch user ID, e.g. for a bot that acts in many channels, and picks the right one for each call.
+ */
+export class UserAccessTokenRegistry {
+    private readonly providers = new Map<string, UserAccessTokenProvider>()
+
+    /**
+     * Adds or replaces the provider for a user.
+     * @param userID The Twitch user ID the tokens belong to.
+     * @param provider The provider of the user's tokens.
+     */
+    register(userID: string, provider: UserAccessTokenProvider): void {
+        this.providers.set(userID, provider)
+    }
+
+    /**
+     * Removes the provider for a user. Returns whether one was registered.
+     */
+    unregister(userID: string): boolean {
+        return this.providers.delete(userID)
+    }
+
+    /**
+     * Returns the provider registered for a user, or null if there is none.
+     */
+    get(userID: string): UserAccessTokenProvider | null {
+        return this.providers.get(userID) ?? null
+    }
+
+    /**
+     * Returns the IDs of all registered users.
+     */
+    getUserIDs(): string[] {
+        return Array.from(this.providers.keys())
+    }
+
+    /**
+     * Returns the scopes of a user's current token, refreshing it if necessary.
+     * @param userID The Twitch user ID to look up.
+     */
+    async getScopes(userID: string): Promise<UserAccessTokenScope[]> {
+        const provider = this.providers.get(userID)
+        if (!provider) {
+            throw new Error(`No user access token registered for user ${userID}`)
+        }
+        return (await provider.getAccessToken()).scopes
+    }
+
+    /**
+     * Loads the tokens of the given users from a token store, keyed by user ID, and registers a provider for each. Users without a stored token are skipped.
+     * @param strategy The strategy the providers refresh tokens with.
+     * @param store The store holding the tokens.
+     * @param userIDs The users to load.
+     * @returns The IDs of the users whose tokens were loaded.
+     */
+    async loadFromStore(strategy: UserAccessTokenFlowStrategy, store: TokenStore<UserAccessToken>, userIDs: string[]): Promise<string[]> {
+        const loadedUserIDs: string[] = []
+        for (const userID of userIDs) {
+            const storedToken = await store.read(userID)
+            if (storedToken) {
+                this.register(userID, new DefaultUserAccessTokenProvider(strategy, storedToken, { tokenStorage: { store, key: userID } }))
+                loadedUserIDs.push(userID)
+            }
+        }
+        return loadedUserIDs
+    }
+
+    /**
+     * Picks the token to call a Helix endpoint with: the token of the user named by the endpoint's `actingUserParam`, e.g. the `sender_id` of SendChatMessage or the `moderator_id` of BanUser. Only endpoints that don't act as a particular user may use any registered token with the required scopes.
+     * @param endpointName The endpoint being called, e.g. `'BanUser'`.
+     * @param params The query and body the endpoint is called with.
+     */
+    resolveForEndpoint(endpointName: EndpointName, params: { query?: unknown, body?: unknown }): Promise<UserAccessTokenProvider> {
+        const endpoint = ALL_ENDPOINTS[endpointName]
+        const requiredScopes: UserAccessTokenScopeSet | undefined = endpoint.auth.userScopes
+        const actingUserParam: string | null | undefined = endpoint.auth.actingUserParam
+        if (actingUserParam === undefined) {
+            return this.resolveAny(endpointName, requiredScopes ?? null)
+        }
+        if (actingUserParam === null) {
+            throw new NoMatchingUserAccessTokenError(`${endpointName} acts as the user the token belongs to without naming them, so the token can't be picked from the call; use get() with the user's ID instead`, endpointName, null, requiredScopes ?? null)
+        }
+        return this.resolve(endpointName, actingUserParam, getActingUserID([params.query, params.body], actingUserParam), requiredScopes ?? null)
+    }
+
+    /**
+     * Picks the token to subscribe to an EventSub subscription type with: the token of the user named by the type's `actingUserField`, e.g. the `user_id` of ChannelChatMessage or the `moderator_user_id` of ChannelFollow.
+     * @param eventType The subscription type, e.g. `'ChannelChatMessage'`.
+     * @param condition The condition the subscription is created with.
+     */
+    resolveForEventType(eventType: EventTypeKeys, condition: unknown): Promise<UserAccessTokenProvider> {
+        const { auth } = ALL_SUBSCRIPTION_TYPES[eventType]
+        const requiredScopes: UserAccessTokenScopeSet | undefined = auth.userScopes
+        const actingUserField: string | undefined = auth.actingUserField
+        if (actingUserField === undefined) {
+            throw new NoMatchingUserAccessTokenError(`${eventType} subscriptions are not created with a user access token`, eventType, null, requiredScopes ?? null)
+        }
+        return this.resolve(eventType, actingUserField, getActingUserID([condition], actingUserField), requiredScopes ?? null)
+    }
+
+    /**
+     * Returns any registered token with the required scopes, for calls that don't act as a particular user.
+     */
+    private async resolveAny(target: string, requiredScopes: UserAccessTokenScopeSet | null): Promise<UserAccessTokenProvider> {
+        for (const provider of this.providers.values()) {
+            if (!requiredScopes || isScopeSetSatisfied(requiredScopes, (await provider.getAccessToken()).scopes)) {
+                return provider
+            }
+        }
+        const scopesDescription = requiredScopes ? ` with the required scopes ${JSON.stringify(requiredScopes)}` : ''
+        throw new NoMatchingUserAccessTokenError(`No registered user access token${scopesDescription} found for ${target}`, target, null, requiredScopes)
+    }
+
+    private async resolve(target: string, field: string, userID: string | null, requiredScopes: UserAccessTokenScopeSet | null): Promise<UserAccessTokenProvider> {
+        if (userID === null) {
+            throw new NoMatchingUserAccessTokenError(`${target} is called without ${field}, which names the user whose token must be used`, target, null, requiredScopes)
+        }
+        // Any other user's token would either be rejected by Twitch or act as the wrong user, so there is no fallback
+        const provider = this.providers.get(userID)
+        if (!provider) {
+            throw new NoMatchingUserAccessTokenError(`No user access token registered for ${userID} to use for ${target}`, target, userID, requiredScopes)
+        }
+        if (requiredScopes && !isScopeSetSatisfied(requiredScopes, (await provider.getAccessToken()).scopes)) {
+            throw new NoMatchingUserAccessTokenError(`User access token registered for ${userID} lacks the required scopes ${JSON.stringify(requiredScopes)} for ${target}`, target, userID, requiredScopes)
+        }
+        return provider
+    }
+}
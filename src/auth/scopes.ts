@@ -0,0 +1,252 @@
+import { ALL_SUBSCRIPTION_TYPES, type EventTypeKeys } from '../eventsub/subtypes.js'
+import type { HelixInsufficientScopesError } from '../helix/helix.js'
+import { ALL_ENDPOINTS } from '../helix/types.js'
+import type { DeviceCodeGrantFlowStrategy } from './auth.js'
+import { UserAccessTokenScopeSchema, type UserAccessTokenScope, type UserAccessTokenScopeSet } from './types.js'
+
+type EndpointName = keyof typeof ALL_ENDPOINTS
+
+// Bounds the search for the smallest scope list. Real requirement trees are tiny, but many features with many alternatives could otherwise explode.
+const MAX_SEARCH_STEPS = 100_000
+
+/**
+ * The Helix endpoints and EventSub subscription types an application uses, by their keys in {@link ALL_ENDPOINTS} and {@link ALL_SUBSCRIPTION_TYPES}
+ */
+export interface ScopePlanFeatures {
+    endpoints?: readonly EndpointName[]
+    eventTypes?: readonly EventTypeKeys[]
+}
+
+export interface ScopeDiff {
+    /** The fewest scopes to add to the token so that every feature is reachable, in addition to the scopes it already has */
+    missingScopes: UserAccessTokenScope[]
+    /** Endpoints whose scope requirements the token does not satisfy yet */
+    unreachableEndpoints: EndpointName[]
+    /** Subscription types whose scope requirements the token does not satisfy yet */
+    unreachableEventTypes: EventTypeKeys[]
+}
+
+export interface ScopeUpgrade {
+    /** Every scope to request: the token's current scopes plus the fewest scopes that satisfy the requirement */
+    scopes: UserAccessTokenScope[]
+    /** The scopes the token doesn't have yet */
+    addedScopes: UserAccessTokenScope[]
+    /** Whether the consent screen has to be forced. Twitch skips it when every requested scope was already granted, so it is only forced when no scopes are added. */
+    forceVerify: boolean
+}
+
+interface ScopeRequirement {
+    /** Each alternative is a list of scopes that together satisfy the requirement */
+    alternatives: UserAccessTokenScope[][]
+}
+
+/**
+ * Flattens a scope set into the lists of scopes that satisfy it, e.g. `{ all: ['a', { any: ['b', 'c'] }] }` becomes `[['a', 'b'], ['a', 'c']]`
+ */
+function expandScopeSet(scopeSet: UserAccessTokenScopeSet): UserAccessTokenScope[][] {
+    if (typeof scopeSet === 'string') {
+        return [[scopeSet]]
+    } else if ('any' in scopeSet) {
+        return scopeSet.any.flatMap(expandScopeSet)
+    } else if ('all' in scopeSet) {
+        return scopeSet.all.reduce<UserAccessTokenScope[][]>(
+            (combinations, subSet) => combinations.flatMap(combination => expandScopeSet(subSet).map(alternative => [...combination, ...alternative])),
+            [[]],
+        )
+    }
+    throw new Error('Invalid UserAccessTokenScopeSet structure')
+}
+
+function getScopeRequirement(scopeSet: UserAccessTokenScopeSet): ScopeRequirement {
+    const alternatives = expandScopeSet(scopeSet).map(alternative => Array.from(new Set(alternative)))
+    // Drop alternatives that contain another alternative, since they can never be the cheaper choice
+    return {
+        alternatives: alternatives.filter((alternative, i) => !alternatives.some((other, j) => j !== i && other.every(scope => alternative.includes(scope)) && (other.length < alternative.length || j < i))),
+    }
+}
+
+function isRequirementSatisfied(requirement: ScopeRequirement, scopes: ReadonlySet<UserAccessTokenScope>): boolean {
+    return requirement.alternatives.some(alternative => alternative.every(scope => scopes.has(scope)))
+}
+
+function getFeatureScopeSets(features: ScopePlanFeatures): Array<{ kind: 'endpoint', name: EndpointName, scopeSet: UserAccessTokenScopeSet } | { kind: 'eventType', name: EventTypeKeys, scopeSet: UserAccessTokenScopeSet }> {
+    const scopeSets: ReturnType<typeof getFeatureScopeSets> = []
+    for (const name of features.endpoints ?? []) {
+        const endpoint = ALL_ENDPOINTS[name]
+        if (!endpoint) {
+            throw new Error(`Unknown endpoint: ${name}`)
+        }
+        const scopeSet: UserAccessTokenScopeSet | undefined = endpoint.auth.userScopes
+        if (scopeSet) {
+            scopeSets.push({ kind: 'endpoint', name, scopeSet })
+        }
+    }
+    for (const name of features.eventTypes ?? []) {
+        const eventType = ALL_SUBSCRIPTION_TYPES[name]
+        if (!eventType) {
+            throw new Error(`Unknown event type: ${name}`)
+        }
+        const scopeSet: UserAccessTokenScopeSet | undefined = eventType.auth.userScopes
+        if (scopeSet) {
+            scopeSets.push({ kind: 'eventType', name, scopeSet })
+        }
+    }
+    return scopeSets
+}
+
+function sortScopes(scopes: Iterable<UserAccessTokenScope>): UserAccessTokenScope[] {
+    const order = UserAccessTokenScopeSchema.options
+    return Array.from(scopes).sort((a, b) => order.indexOf(a) - order.indexOf(b))
+}
+
+/**
+ * Picks one alternative per requirement so that the number of scopes not already granted is as small as possible. Earlier alternatives win ties.
+ */
+function findMinimalScopes(requirements: ScopeRequirement[], grantedScopes: ReadonlySet<UserAccessTokenScope>): Set<UserAccessTokenScope> {
+    const pending = requirements
+        .filter(requirement => !isRequirementSatisfied(requirement, grantedScopes))
+        // Requirements with fewer alternatives go first, so the scopes they force in make the search prune earlier
+        .sort((a, b) => a.alternatives.length - b.alternatives.length)
+
+    const chosen = new Set<UserAccessTokenScope>()
+    const available = new Set(grantedScopes)
+    let best: Set<UserAccessTokenScope> | null = null
+    let steps = 0
+
+    const search = (index: number) => {
+        if (best && (chosen.size >= best.size || steps >= MAX_SEARCH_STEPS)) {
+            return
+        }
+        steps++
+        const requirement = pending[index]
+        if (!requirement) {
+            best = new Set(chosen)
+            return
+        }
+        if (isRequirementSatisfied(requirement, available)) {
+            search(index + 1)
+            return
+        }
+        for (const alternative of requirement.alternatives) {
+            const added = alternative.filter(scope => !available.has(scope))
+            for (const scope of added) {
+                chosen.add(scope)
+                available.add(scope)
+            }
+            search(index + 1)
+            for (const scope of added) {
+                chosen.delete(scope)
+                available.delete(scope)
+            }
+        }
+    }
+    search(0)
+    return best ?? new Set()
+}
+
+/**
+ * Checks whether a list of scopes satisfies a scope set.
+ * @param scopeSet The required scope set, e.g. an endpoint's `userScopes`.
+ * @param scopes The scopes to check, e.g. `UserAccessToken.scopes`.
+ */
+export function isScopeSetSatisfied(scopeSet: UserAccessTokenScopeSet, scopes: readonly UserAccessTokenScope[]): boolean {
+    return isRequirementSatisfied(getScopeRequirement(scopeSet), new Set(scopes))
+}
+
+/**
+ * Computes the smallest flat list of scopes that satisfies the scope requirements of every given endpoint and subscription type. The result can be passed to `generateAuthorizationUrl` or `requestDeviceCode` as is.
+ * @param features The endpoints and subscription types the application uses.
+ */
+export function planScopes(features: ScopePlanFeatures): UserAccessTokenScope[] {
+    const requirements = getFeatureScopeSets(features).map(({ scopeSet }) => getScopeRequirement(scopeSet))
+    return sortScopes(findMinimalScopes(requirements, new Set()))
+}
+
+/**
+ * Compares the scopes of an existing token against the requirements of the given endpoints and subscription types.
+ * @param features The endpoints and subscription types the application uses.
+ * @param tokenScopes The scopes the token was granted, e.g. `UserAccessToken.scopes`.
+ */
+export function diffScopes(features: ScopePlanFeatures, tokenScopes: readonly UserAccessTokenScope[]): ScopeDiff {
+    const grantedScopes = new Set(tokenScopes)
+    const diff: ScopeDiff = {
+        missingScopes: [],
+        unreachableEndpoints: [],
+        unreachableEventTypes: [],
+    }
+    const requirements: ScopeRequirement[] = []
+    for (const feature of getFeatureScopeSets(features)) {
+        const requirement = getScopeRequirement(feature.scopeSet)
+        requirements.push(requirement)
+        if (isRequirementSatisfied(requirement, grantedScopes)) {
+            continue
+        }
+        if (feature.kind === 'endpoint') {
+            diff.unreachableEndpoints.push(feature.name)
+        } else {
+            diff.unreachableEventTypes.push(feature.name)
+        }
+    }
+    diff.missingScopes = sortScopes(findMinimalScopes(requirements, grantedScopes))
+    return diff
+}
+
+/**
+ * Computes the scopes to re-authorize with after a call failed with a {@link HelixInsufficientScopesError}. The current scopes are kept, since the new token replaces the old one.
+ * @param error The error thrown by the Helix client, or anything else carrying the required scope set.
+ * @param currentScopes The scopes of the token that was rejected, e.g. `UserAccessToken.scopes`.
+ */
+export function planScopeUpgrade(error: Pick<HelixInsufficientScopesError, 'requiredScopes'>, currentScopes: readonly UserAccessTokenScope[]): ScopeUpgrade {
+    const addedScopes = sortScopes(findMinimalScopes([getScopeRequirement(error.requiredScopes)], new Set(currentScopes)))
+    return {
+        scopes: sortScopes(new Set([...currentScopes, ...addedScopes])),
+        addedScopes,
+        forceVerify: addedScopes.length === 0,
+    }
+}
+
+/**
+ * Builds a re-authorization URL that asks the user for the current scopes plus the ones a failed call needed. Once the user is redirected back, exchange the code as usual and pass the new token to `UserAccessTokenProvider.setAccessToken`.
+ * @param strategy The authorization code or implicit grant flow strategy to generate the URL with.
+ * @param error The error thrown by the Helix client.
+ * @param currentScopes The scopes of the token that was rejected.
+ * @param options.state The anti-CSRF state to use. Generated if not provided.
+ * @param options.forceVerify Overrides whether the consent screen is forced. Forcing it also lets the user switch accounts.
+ */
+export function generateScopeUpgradeAuthorizationUrl(
+    strategy: { generateAuthorizationUrl(options: { scopes: UserAccessTokenScope[], state?: string, forceVerify?: boolean }): { url: string, state: string } },
+    error: Pick<HelixInsufficientScopesError, 'requiredScopes'>,
+    currentScopes: readonly UserAccessTokenScope[],
+    options: { state?: string, forceVerify?: boolean } = {},
+) {
+    const upgrade = planScopeUpgrade(error, currentScopes)
+    const { url, state } = strategy.generateAuthorizationUrl({
+        scopes: upgrade.scopes,
+        forceVerify: options.forceVerify ?? upgrade.forceVerify,
+        ...(options.state !== undefined ? { state: options.state } : {}),
+    })
+    return {
+        ...upgrade,
+        url,
+        state,
+    }
+}
+
+/**
+ * Requests a device code that asks the user for the current scopes plus the ones a failed call needed. The device code flow always shows the consent screen. Once polling returns the new token, pass it to `UserAccessTokenProvider.setAccessToken`.
+ * @param strategy The device code grant flow strategy to request the code with.
+ * @param error The error thrown by the Helix client.
+ * @param currentScopes The scopes of the token that was rejected.
+ */
+export async function requestScopeUpgradeDeviceCode(
+    strategy: DeviceCodeGrantFlowStrategy,
+    error: Pick<HelixInsufficientScopesError, 'requiredScopes'>,
+    currentScopes: readonly UserAccessTokenScope[],
+) {
+    const upgrade = planScopeUpgrade(error, currentScopes)
+    const deviceCode = await strategy.requestDeviceCode(upgrade.scopes)
+    return {
+        ...deviceCode,
+        addedScopes: upgrade.addedScopes,
+    }
+}
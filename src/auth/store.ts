@@ -0,0 +1,252 @@
+import * as z from 'zod'
+import { decodeBase64, encodeBase64, safeJsonParse } from '../utils/data.js'
+import { wait } from '../utils/async.js'
+import { createFileExclusive, isFileNotFoundError, joinPath, writeFileAtomic, type FileSystem } from '../utils/fs.js'
+import type { AppAccessToken, UserAccessToken } from './types.js'
+
+/**
+ * Persists access tokens so that they survive restarts. Token providers read their token from the store at startup and write it back on every refresh, which matters because refreshing can rotate the refresh token and invalidate the previous one.
+ */
+export interface TokenStore<T extends UserAccessToken | AppAccessToken> {
+    /**
+     * Returns the token stored under a key, or null if there is none
+     */
+    read(key: string): Promise<T | null>
+    write(key: string, token: T): Promise<void>
+    delete(key: string): Promise<void>
+    /**
+     * Takes an exclusive lease on a key, waiting while another process holds it, and resolves with a function that releases it. Providers hold it while refreshing so that processes sharing the store never refresh with the same refresh token. Stores without it fall back to re-reading the store after a failed refresh.
+     */
+    lock?(key: string): Promise<() => Promise<void>>
+}
+
+/**
+ * A token store and the key a provider keeps its token under, e.g. the user's ID
+ */
+export interface TokenStorage<T extends UserAccessToken | AppAccessToken> {
+    store: TokenStore<T>
+    key: string
+}
+
+/**
+ * Thrown when a file in a token store doesn't hold what the store wrote there, e.g. because it was edited by hand, truncated, or encrypted with a different key.
+ */
+export class CorruptTokenFileError extends Error {
+    constructor(
+        message: string,
+        public readonly path: string,
+    ) {
+        super(message)
+        this.name = 'CorruptTokenFileError'
+    }
+}
+
+// A lease outlives any refresh, and is broken after that in case its holder died without releasing it
+const LOCK_LEASE_MS = 30 * 1000
+const LOCK_POLL_INTERVAL_MS = 100
+
+interface FileLease {
+    id: string
+    expiry: number
+}
+
+function getTokenFileName(key: string): string {
+    return `${encodeURIComponent(key)}.json`
+}
+
+function formatLease(lease: FileLease): string {
+    return `${lease.id} ${lease.expiry}`
+}
+
+async function readLease(fileSystem: FileSystem, path: string): Promise<FileLease | null> {
+    const text = await readTokenFile(fileSystem, path)
+    if (text === null) {
+        return null
+    }
+    const match = /^(\S+) (\d+)$/.exec(text)
+    if (!match) {
+        throw new CorruptTokenFileError(`Lock file ${path} does not hold a lease`, path)
+    }
+    return { id: match[1]!, expiry: parseInt(match[2]!, 10) }
+}
+
+/**
+ * Takes a lease by exclusively creating a lock file holding its expiry
+ */
+async function acquireFileLock(fileSystem: FileSystem, directory: string, key: string): Promise<() => Promise<void>> {
+    await fileSystem.mkdir(directory, { recursive: true })
+    const path = joinPath(directory, `${encodeURIComponent(key)}.lock`)
+    let lease: FileLease
+    while (true) {
+        lease = { id: crypto.randomUUID(), expiry: Date.now() + LOCK_LEASE_MS }
+        if (await createFileExclusive(fileSystem, path, formatLease(lease))) {
+            break
+        }
+        const existingLease = await readLease(fileSystem, path)
+        if (existingLease && Date.now() >= existingLease.expiry) {
+            await removeLease(fileSystem, path, existingLease)
+            continue
+        }
+        await wait(LOCK_POLL_INTERVAL_MS)
+    }
+    return () => removeLease(fileSystem, path, lease)
+}
+
+/**
+ * Removes a lock file if it still holds the given lease. Every removal of a lease, whether breaking it after it expired or releasing it, happens while holding a breaker file named after it and after re-reading the lock file. A lease is never written again once removed, so a process that saw a lease expire can't remove the fresh lease that replaced it.
+ */
+async function removeLease(fileSystem: FileSystem, path: string, lease: FileLease): Promise<void> {
+    const breakerPath = `${path}.${lease.id}.break`
+    while (!(await createFileExclusive(fileSystem, breakerPath, formatLease({ id: lease.id, expiry: Date.now() + LOCK_LEASE_MS })))) {
+        const breaker = await readLease(fileSystem, breakerPath)
+        // A breaker outliving its lease means its holder died while removing the lease
+        if (breaker && Date.now() < breaker.expiry) {
+            return
+        }
+        await fileSystem.rm(breakerPath, { force: true })
+    }
+    try {
+        if ((await readLease(fileSystem, path))?.id === lease.id) {
+            await fileSystem.rm(path, { force: true })
+        }
+    } finally {
+        await fileSystem.rm(breakerPath, { force: true })
+    }
+}
+
+function parseTokenFile<T>(schema: z.ZodType<T>, path: string, text: string): T {
+    const token = schema.safeParse(safeJsonParse(text))
+    if (!token.success) {
+        throw new CorruptTokenFileError(`Token file ${path} does not hold a valid token`, path)
+    }
+    return token.data
+}
+
+async function readTokenFile(fileSystem: FileSystem, path: string): Promise<string | null> {
+    try {
+        return await fileSystem.readFile(path, 'utf8')
+    } catch (e) {
+        if (isFileNotFoundError(e)) {
+            return null
+        }
+        throw e
+    }
+}
+
+/**
+ * Stores each token as a plain JSON file named after its key. Files are replaced atomically, so processes sharing the directory never read a partially written token. Anyone who can read the directory can use the tokens; see {@link EncryptedFileTokenStore} to encrypt them at rest.
+ */
+export class FileTokenStore<T extends UserAccessToken | AppAccessToken> implements TokenStore<T> {
+    /**
+     * @param services.fileSystem The file system to read and write tokens with, usually Node's `fs/promises` module.
+     * @param directory The directory to store token files in. It is created if it doesn't exist.
+     * @param tokenSchema The schema stored tokens are validated against, `UserAccessTokenSchema` or `AppAccessTokenSchema`.
+     */
+    constructor(
+        private readonly services: {
+            fileSystem: FileSystem,
+        },
+        private readonly directory: string,
+        private readonly tokenSchema: z.ZodType<T>,
+    ) {
+
+    }
+
+    async read(key: string): Promise<T | null> {
+        const path = joinPath(this.directory, getTokenFileName(key))
+        const text = await readTokenFile(this.services.fileSystem, path)
+        return text === null ? null : parseTokenFile(this.tokenSchema, path, text)
+    }
+
+    async write(key: string, token: T): Promise<void> {
+        await this.services.fileSystem.mkdir(this.directory, { recursive: true })
+        await writeFileAtomic(this.services.fileSystem, joinPath(this.directory, getTokenFileName(key)), `${JSON.stringify(token, null, 2)}\n`)
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.services.fileSystem.rm(joinPath(this.directory, getTokenFileName(key)), { force: true })
+    }
+
+    lock(key: string): Promise<() => Promise<void>> {
+        return acquireFileLock(this.services.fileSystem, this.directory, key)
+    }
+}
+
+const EncryptedTokenFileSchema = z.object({
+    version: z.literal(1),
+    /** The base64 AES-GCM initialization vector, unique per write */
+    iv: z.string(),
+    /** The base64 encrypted token JSON, including the authentication tag */
+    ciphertext: z.string(),
+})
+
+type EncryptedTokenFile = z.infer<typeof EncryptedTokenFileSchema>
+
+/**
+ * Stores each token as a JSON file encrypted with AES-GCM, named after its key. The key is bound to the ciphertext as additional data, so a token file copied to another key fails to decrypt.
+ */
+export class EncryptedFileTokenStore<T extends UserAccessToken | AppAccessToken> implements TokenStore<T> {
+    /**
+     * @param services.fileSystem The file system to read and write tokens with, usually Node's `fs/promises` module.
+     * @param directory The directory to store token files in. It is created if it doesn't exist.
+     * @param tokenSchema The schema stored tokens are validated against, `UserAccessTokenSchema` or `AppAccessTokenSchema`.
+     * @param encryptionKey An AES-GCM key usable for `encrypt` and `decrypt`, e.g. imported with `crypto.subtle.importKey('raw', keyBytes, 'AES-GCM', false, ['encrypt', 'decrypt'])`.
+     */
+    constructor(
+        private readonly services: {
+            fileSystem: FileSystem,
+        },
+        private readonly directory: string,
+        private readonly tokenSchema: z.ZodType<T>,
+        private readonly encryptionKey: CryptoKey,
+    ) {
+
+    }
+
+    async read(key: string): Promise<T | null> {
+        const path = joinPath(this.directory, getTokenFileName(key))
+        const text = await readTokenFile(this.services.fileSystem, path)
+        if (text === null) {
+            return null
+        }
+        const file = EncryptedTokenFileSchema.safeParse(safeJsonParse(text))
+        if (!file.success) {
+            throw new CorruptTokenFileError(`Token file ${path} is not an encrypted token file`, path)
+        }
+        let plaintext: ArrayBuffer
+        try {
+            plaintext = await crypto.subtle.decrypt({
+                name: 'AES-GCM',
+                iv: decodeBase64(file.data.iv),
+                additionalData: new TextEncoder().encode(key),
+            }, this.encryptionKey, decodeBase64(file.data.ciphertext))
+        } catch {
+            throw new CorruptTokenFileError(`Token file ${path} could not be decrypted; it was encrypted with a different key, for a different token key, or is damaged`, path)
+        }
+        return parseTokenFile(this.tokenSchema, path, new TextDecoder().decode(plaintext))
+    }
+
+    async write(key: string, token: T): Promise<void> {
+        const iv = crypto.getRandomValues(new Uint8Array(12))
+        const ciphertext = await crypto.subtle.encrypt({
+            name: 'AES-GCM',
+            iv,
+            additionalData: new TextEncoder().encode(key),
+        }, this.encryptionKey, new TextEncoder().encode(JSON.stringify(token)))
+        const file: EncryptedTokenFile = {
+            version: 1,
+            iv: encodeBase64(iv),
+            ciphertext: encodeBase64(new Uint8Array(ciphertext)),
+        }
+        await this.services.fileSystem.mkdir(this.directory, { recursive: true })
+        await writeFileAtomic(this.services.fileSystem, joinPath(this.directory, getTokenFileName(key)), `${JSON.stringify(file, null, 2)}\n`)
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.services.fileSystem.rm(joinPath(this.directory, getTokenFileName(key)), { force: true })
+    }
+
+    lock(key: string): Promise<() => Promise<void>> {
+        return acquireFileLock(this.services.fileSystem, this.directory, key)
+    }
+}
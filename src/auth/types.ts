@@ -1,6 +1,6 @@
 import * as z from 'zod'
 
-export const UserAccessTokenScopeSchema = z.enum(['analytics:read:extensions', 'analytics:read:games', 'bits:read', 'channel:bot', 'channel:manage:ads', 'channel:read:ads', 'channel:manage:broadcast', 'channel:read:charity', 'channel:manage:clips', 'channel:edit:commercial', 'channel:read:editors', 'channel:manage:extensions', 'channel:read:goals', 'channel:read:guest_star', 'channel:manage:guest_star', 'channel:read:hype_train', 'channel:manage:moderators', 'channel:read:polls', 'channel:manage:polls', 'channel:read:predictions', 'channel:manage:predictions', 'channel:manage:raids', 'channel:read:redemptions', 'channel:manage:redemptions', 'channel:manage:schedule', 'channel:read:stream_key', 'channel:read:subscriptions', 'channel:manage:videos', 'channel:read:vips', 'channel:manage:vips', 'channel:moderate', 'clips:edit', 'editor:manage:clips', 'moderation:read', 'moderator:manage:announcements', 'moderator:manage:automod', 'moderator:read:automod_settings', 'moderator:manage:automod_settings', 'moderator:read:banned_users', 'moderator:manage:banned_users', 'moderator:read:blocked_terms', 'moderator:read:chat_messages', 'moderator:manage:blocked_terms', 'moderator:manage:chat_messages', 'moderator:read:chat_settings', 'moderator:manage:chat_settings', 'moderator:read:chatters', 'moderator:read:followers', 'moderator:read:guest_star', 'moderator:manage:guest_star', 'moderator:read:moderators', 'moderator:read:shield_mode', 'moderator:manage:shield_mode', 'moderator:read:shoutouts', 'moderator:manage:shoutouts', 'moderator:read:suspicious_users', 'moderator:read:unban_requests', 'moderator:manage:unban_requests', 'moderator:read:vips', 'moderator:read:warnings', 'moderator:manage:warnings', 'user:bot', 'user:edit', 'user:edit:broadcast', 'user:read:blocked_users', 'user:manage:blocked_users', 'user:read:broadcast', 'user:read:chat', 'user:manage:chat_color', 'user:read:email', 'user:read:emotes', 'user:read:follows', 'user:read:moderated_channels', 'user:read:subscriptions', 'user:read:whispers', 'user:manage:whispers', 'user:write:chat', 'chat:edit', 'chat:read', 'whispers:read'])
+export const UserAccessTokenScopeSchema = z.enum(['analytics:read:extensions', 'analytics:read:games', 'bits:read', 'channel:bot', 'channel:manage:ads', 'channel:read:ads', 'channel:manage:broadcast', 'channel:read:charity', 'channel:manage:clips', 'channel:edit:commercial', 'channel:read:editors', 'channel:manage:extensions', 'channel:read:goals', 'channel:read:guest_star', 'channel:manage:guest_star', 'channel:read:hype_train', 'channel:manage:moderators', 'channel:read:polls', 'channel:manage:polls', 'channel:read:predictions', 'channel:manage:predictions', 'channel:manage:raids', 'channel:read:redemptions', 'channel:manage:redemptions', 'channel:manage:schedule', 'channel:read:stream_key', 'channel:read:subscriptions', 'channel:manage:videos', 'channel:read:vips', 'channel:manage:vips', 'channel:moderate', 'clips:edit', 'editor:manage:clips', 'moderation:read', 'moderator:manage:announcements', 'moderator:manage:automod', 'moderator:read:automod_settings', 'moderator:manage:automod_settings', 'moderator:read:banned_users', 'moderator:manage:banned_users', 'moderator:read:blocked_terms', 'moderator:read:chat_messages', 'moderator:manage:blocked_terms', 'moderator:manage:chat_messages', 'moderator:read:chat_settings', 'moderator:manage:chat_settings', 'moderator:read:chatters', 'moderator:read:followers', 'moderator:read:guest_star', 'moderator:manage:guest_star', 'moderator:read:moderators', 'moderator:read:shield_mode', 'moderator:manage:shield_mode', 'moderator:read:shoutouts', 'moderator:manage:shoutouts', 'moderator:read:suspicious_users', 'moderator:read:unban_requests', 'moderator:manage:unban_requests', 'moderator:read:vips', 'moderator:read:warnings', 'moderator:manage:warnings', 'user:bot', 'user:edit', 'user:edit:broadcast', 'user:read:blocked_users', 'user:manage:blocked_users', 'user:read:broadcast', 'user:read:chat', 'user:manage:chat_color', 'user:read:email', 'user:read:emotes', 'user:read:follows', 'user:read:moderated_channels', 'user:read:subscriptions', 'user:read:whispers', 'user:manage:whispers', 'user:write:chat', 'chat:edit', 'chat:read', 'whispers:read', 'openid'])
 
 export type UserAccessTokenScope = z.infer<typeof UserAccessTokenScopeSchema>
 
@@ -14,9 +14,55 @@ export interface UserAccessToken {
     expiry: number
     scopes: UserAccessTokenScope[]
     refreshToken: string | null
+    /** The Client ID of the application the token was issued for, if known. Tokens can only be used with the Client ID they were issued for. */
+    clientID?: string | undefined
+    /** The OpenID Connect ID token issued alongside the access token when the `openid` scope was requested. Verify it with `verifyIdToken` before trusting its claims. */
+    idToken?: string | undefined
+    /** The ID of the user who authorized the token. Filled in when the token is validated. */
+    userID?: string | undefined
+    /** The login name of the user who authorized the token. Filled in when the token is validated. */
+    login?: string | undefined
 }
 
 export interface AppAccessToken {
     accessToken: string
     expiry: number
+    /** The Client ID of the application the token was issued for, if known. Tokens can only be used with the Client ID they were issued for. */
+    clientID?: string | undefined
+}
+
+/**
+ * Validates user access tokens read from storage
+ */
+export const UserAccessTokenSchema = z.object({
+    accessToken: z.string(),
+    expiry: z.number(),
+    scopes: z.array(UserAccessTokenScopeSchema),
+    refreshToken: z.string().nullable(),
+    clientID: z.string().optional(),
+    idToken: z.string().optional(),
+    userID: z.string().optional(),
+    login: z.string().optional(),
+}) satisfies z.ZodType<UserAccessToken>
+
+/**
+ * Validates app access tokens read from storage
+ */
+export const AppAccessTokenSchema = z.object({
+    accessToken: z.string(),
+    expiry: z.number(),
+    clientID: z.string().optional(),
+}) satisfies z.ZodType<AppAccessToken>
+
+/**
+ * The OpenID Connect claims Twitch can include in ID tokens and UserInfo responses on request
+ */
+export type OpenIDClaim = 'email' | 'email_verified' | 'picture' | 'preferred_username' | 'updated_at'
+
+/**
+ * The value of the `claims` authorization parameter. Each listed claim is requested for the ID token, the UserInfo response, or both.
+ */
+export interface OpenIDClaimsRequest {
+    id_token?: { [C in OpenIDClaim]?: null }
+    userinfo?: { [C in OpenIDClaim]?: null }
 }
@@ -60,6 +60,8 @@ export interface EventSubscriptionType<TType extends string, TVersion extends st
         appScopes?: UserAccessTokenScopeSet
         userAccessToken?: boolean
         userScopes?: UserAccessTokenScopeSet
+        /** The condition field naming the user whose user access token the subscription must be created with, e.g. `moderator_user_id` for ChannelFollow. */
+        actingUserField?: keyof TCondition & string
     }
     condition: z.ZodType<TCondition>
     event: z.ZodType<TEvent>
@@ -79,6 +81,7 @@ export const AutomodMessageHold = defineEventSubscriptionType<'automod.message.h
         appScopes: 'moderator:manage:automod',
         userAccessToken: true,
         userScopes: 'moderator:manage:automod',
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.AutomodMessageHoldConditionSchema,
     event: eventsub.AutomodMessageHoldEventSchema,
@@ -91,6 +94,7 @@ export const AutomodMessageHoldV2 = defineEventSubscriptionType<'automod.message
         appAccessToken: true,
         userAccessToken: true,
         userScopes: 'moderator:manage:automod',
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.AutomodMessageHoldConditionSchema,
     event: eventsub.AutomodMessageHoldEventV2Schema,
@@ -104,6 +108,7 @@ export const AutomodMessageUpdate = defineEventSubscriptionType<'automod.message
         appScopes: 'moderator:manage:automod',
         userAccessToken: true,
         userScopes: 'moderator:manage:automod',
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.AutomodMessageUpdateConditionSchema,
     event: eventsub.AutomodMessageUpdateEventSchema,
@@ -116,6 +121,7 @@ export const AutomodMessageUpdateV2 = defineEventSubscriptionType<'automod.messa
         appAccessToken: true,
         userAccessToken: true,
         userScopes: 'moderator:manage:automod',
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.AutomodMessageUpdateConditionSchema,
     event: eventsub.AutomodMessageUpdateEventV2Schema,
@@ -129,6 +135,7 @@ export const AutomodSettingsUpdate = defineEventSubscriptionType<'automod.settin
         appScopes: 'moderator:read:automod_settings',
         userAccessToken: true,
         userScopes: 'moderator:read:automod_settings',
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.AutomodSettingsUpdateConditionSchema,
     event: eventsub.AutomodSettingsUpdateEventSchema,
@@ -142,6 +149,7 @@ export const AutomodTermsUpdate = defineEventSubscriptionType<'automod.terms.upd
         appScopes: 'moderator:manage:automod',
         userAccessToken: true,
         userScopes: 'moderator:manage:automod',
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.AutomodTermsUpdateConditionSchema,
     event: eventsub.AutomodTermsUpdateEventSchema,
@@ -153,6 +161,7 @@ export const ChannelBitsUse = defineEventSubscriptionType<'channel.bits.use', '1
     auth: {
         userAccessToken: true,
         userScopes: 'bits:read',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelBitsUseConditionSchema,
     event: eventsub.ChannelBitsUseEventSchema,
@@ -172,6 +181,7 @@ export const ChannelFollow = defineEventSubscriptionType<'channel.follow', '2',
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:read:followers',
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.ChannelFollowConditionSchema,
     event: eventsub.ChannelFollowEventSchema,
@@ -183,6 +193,7 @@ export const ChannelAdBreakBegin = defineEventSubscriptionType<'channel.ad_break
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:ads',
+        actingUserField: 'broadcaster_id',
     },
     condition: eventsub.ChannelAdBreakBeginConditionSchema,
     event: eventsub.ChannelAdBreakBeginEventSchema,
@@ -196,6 +207,7 @@ export const ChannelChatClear = defineEventSubscriptionType<'channel.chat.clear'
         appScopes: { all: ['user:bot', { any: ['channel:bot', 'moderator:read:chat_messages'] }] },
         userAccessToken: true,
         userScopes: 'user:read:chat',
+        actingUserField: 'user_id',
     },
     condition: eventsub.ChannelChatClearConditionSchema,
     event: eventsub.ChannelChatClearEventSchema,
@@ -209,6 +221,7 @@ export const ChannelChatClearUserMessages = defineEventSubscriptionType<'channel
         appScopes: { all: ['user:bot', { any: ['channel:bot', 'moderator:read:chat_messages'] }] },
         userAccessToken: true,
         userScopes: 'user:read:chat',
+        actingUserField: 'user_id',
     },
     condition: eventsub.ChannelChatClearUserMessagesConditionSchema,
     event: eventsub.ChannelChatClearUserMessagesEventSchema,
@@ -222,6 +235,7 @@ export const ChannelChatMessage = defineEventSubscriptionType<'channel.chat.mess
         appScopes: { all: ['user:bot', { any: ['channel:bot', 'moderator:read:chat_messages'] }] },
         userAccessToken: true,
         userScopes: 'user:read:chat',
+        actingUserField: 'user_id',
     },
     condition: eventsub.ChannelChatMessageConditionSchema,
     event: eventsub.ChannelChatMessageEventSchema,
@@ -235,6 +249,7 @@ export const ChannelChatMessageDelete = defineEventSubscriptionType<'channel.cha
         appScopes: { all: ['user:bot', { any: ['channel:bot', 'moderator:read:chat_messages'] }] },
         userAccessToken: true,
         userScopes: 'user:read:chat',
+        actingUserField: 'user_id',
     },
     condition: eventsub.ChannelChatMessageDeleteConditionSchema,
     event: eventsub.ChannelChatMessageDeleteEventSchema,
@@ -248,6 +263,7 @@ export const ChannelChatNotification = defineEventSubscriptionType<'channel.chat
         appScopes: { all: ['user:bot', { any: ['channel:bot', 'moderator:read:chat_messages'] }] },
         userAccessToken: true,
         userScopes: 'user:read:chat',
+        actingUserField: 'user_id',
     },
     condition: eventsub.ChannelChatNotificationConditionSchema,
     event: eventsub.ChannelChatNotificationEventSchema,
@@ -261,6 +277,7 @@ export const ChannelChatSettingsUpdate = defineEventSubscriptionType<'channel.ch
         appScopes: { all: ['user:bot', { any: ['channel:bot', 'moderator:read:chat_messages'] }] },
         userAccessToken: true,
         userScopes: 'user:read:chat',
+        actingUserField: 'user_id',
     },
     condition: eventsub.ChannelChatSettingsUpdateConditionSchema,
     event: eventsub.ChannelChatSettingsUpdateEventSchema,
@@ -274,6 +291,7 @@ export const ChannelChatUserMessageHold = defineEventSubscriptionType<'channel.c
         appScopes: 'user:bot',
         userAccessToken: true,
         userScopes: 'user:read:chat',
+        actingUserField: 'user_id',
     },
     condition: eventsub.ChannelChatUserMessageHoldConditionSchema,
     event: eventsub.ChannelChatUserMessageHoldEventSchema,
@@ -287,6 +305,7 @@ export const ChannelChatUserMessageUpdate = defineEventSubscriptionType<'channel
         appScopes: 'user:bot',
         userAccessToken: true,
         userScopes: 'user:read:chat',
+        actingUserField: 'user_id',
     },
     condition: eventsub.ChannelChatUserMessageUpdateConditionSchema,
     event: eventsub.ChannelChatUserMessageUpdateEventSchema,
@@ -298,6 +317,7 @@ export const ChannelSharedChatSessionBegin = defineEventSubscriptionType<'channe
     auth: {
         userAccessToken: true,
         userScopes: 'user:read:chat',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelSharedChatSessionBeginConditionSchema,
     event: eventsub.ChannelSharedChatBeginEventSchema,
@@ -309,6 +329,7 @@ export const ChannelSharedChatSessionUpdate = defineEventSubscriptionType<'chann
     auth: {
         userAccessToken: true,
         userScopes: 'user:read:chat',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelSharedChatSessionUpdateConditionSchema,
     event: eventsub.ChannelSharedChatUpdateEventSchema,
@@ -320,6 +341,7 @@ export const ChannelSharedChatSessionEnd = defineEventSubscriptionType<'channel.
     auth: {
         userAccessToken: true,
         userScopes: 'user:read:chat',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelSharedChatEndConditionSchema,
     event: eventsub.ChannelSharedChatEndEventSchema,
@@ -331,6 +353,7 @@ export const ChannelSubscribe = defineEventSubscriptionType<'channel.subscribe',
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:subscriptions',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelSubscribeConditionSchema,
     event: eventsub.ChannelSubscribeEventSchema,
@@ -342,6 +365,7 @@ export const ChannelSubscriptionEnd = defineEventSubscriptionType<'channel.subsc
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:subscriptions',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelSubscriptionEndConditionSchema,
     event: eventsub.ChannelSubscriptionEndEventSchema,
@@ -353,6 +377,7 @@ export const ChannelSubscriptionGift = defineEventSubscriptionType<'channel.subs
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:subscriptions',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelSubscriptionGiftConditionSchema,
     event: eventsub.ChannelSubscriptionGiftEventSchema,
@@ -364,6 +389,7 @@ export const ChannelSubscriptionMessage = defineEventSubscriptionType<'channel.s
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:subscriptions',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelSubscriptionMessageConditionSchema,
     event: eventsub.ChannelSubscriptionMessageEventSchema,
@@ -375,6 +401,7 @@ export const ChannelCheer = defineEventSubscriptionType<'channel.cheer', '1', ev
     auth: {
         userAccessToken: true,
         userScopes: 'bits:read',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelCheerConditionSchema,
     event: eventsub.ChannelCheerEventSchema,
@@ -394,6 +421,7 @@ export const ChannelBan = defineEventSubscriptionType<'channel.ban', '1', events
     auth: {
         userAccessToken: true,
         userScopes: 'channel:moderate',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelBanConditionSchema,
     event: eventsub.ChannelBanEventSchema,
@@ -405,6 +433,7 @@ export const ChannelUnban = defineEventSubscriptionType<'channel.unban', '1', ev
     auth: {
         userAccessToken: true,
         userScopes: 'channel:moderate',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelUnbanConditionSchema,
     event: eventsub.ChannelUnbanEventSchema,
@@ -416,6 +445,7 @@ export const ChannelUnbanRequestCreate = defineEventSubscriptionType<'channel.un
     auth: {
         userAccessToken: true,
         userScopes: { any: ['moderator:read:unban_requests', 'moderator:manage:unban_requests'] },
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.ChannelUnbanRequestCreateConditionSchema,
     event: eventsub.ChannelUnbanRequestCreateEventSchema,
@@ -427,6 +457,7 @@ export const ChannelUnbanRequestResolve = defineEventSubscriptionType<'channel.u
     auth: {
         userAccessToken: true,
         userScopes: { any: ['moderator:read:unban_requests', 'moderator:manage:unban_requests'] },
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.ChannelUnbanRequestResolveConditionSchema,
     event: eventsub.ChannelUnbanRequestResolveEventSchema,
@@ -438,6 +469,7 @@ export const ChannelModerate = defineEventSubscriptionType<'channel.moderate', '
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:read:chat_messages',
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.ChannelModerateConditionSchema,
     event: eventsub.ChannelModerateEventSchema,
@@ -449,6 +481,7 @@ export const ChannelModerateV2 = defineEventSubscriptionType<'channel.moderate',
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:read:chat_messages',
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.ChannelModerateConditionSchema,
     event: eventsub.ChannelModerateEventV2Schema,
@@ -460,6 +493,7 @@ export const ChannelModeratorAdd = defineEventSubscriptionType<'channel.moderato
     auth: {
         userAccessToken: true,
         userScopes: 'moderation:read',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelModeratorAddConditionSchema,
     event: eventsub.ChannelModeratorAddEventSchema,
@@ -471,6 +505,7 @@ export const ChannelModeratorRemove = defineEventSubscriptionType<'channel.moder
     auth: {
         userAccessToken: true,
         userScopes: 'moderation:read',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelModeratorRemoveConditionSchema,
     event: eventsub.ChannelModeratorRemoveEventSchema,
@@ -482,6 +517,7 @@ export const ChannelGuestStarSessionBegin = defineEventSubscriptionType<'channel
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:guest_star', 'channel:manage:guest_star', 'moderator:read:guest_star', 'moderator:manage:guest_star'] },
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.ChannelGuestStarSessionBeginConditionSchema,
     event: eventsub.ChannelGuestStarSessionBeginEventSchema,
@@ -493,6 +529,7 @@ export const ChannelGuestStarSessionEnd = defineEventSubscriptionType<'channel.g
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:guest_star', 'channel:manage:guest_star', 'moderator:read:guest_star', 'moderator:manage:guest_star'] },
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.ChannelGuestStarSessionEndConditionSchema,
     event: eventsub.ChannelGuestStarSessionEndEventSchema,
@@ -504,6 +541,7 @@ export const ChannelGuestStarGuestUpdate = defineEventSubscriptionType<'channel.
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:guest_star', 'channel:manage:guest_star', 'moderator:read:guest_star', 'moderator:manage:guest_star'] },
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.ChannelGuestStarGuestUpdateConditionSchema,
     event: eventsub.ChannelGuestStarGuestUpdateEventSchema,
@@ -515,6 +553,7 @@ export const ChannelGuestStarSettingsUpdate = defineEventSubscriptionType<'chann
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:guest_star', 'channel:manage:guest_star', 'moderator:read:guest_star', 'moderator:manage:guest_star'] },
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.ChannelGuestStarSettingsUpdateConditionSchema,
     event: eventsub.ChannelGuestStarSettingsUpdateEventSchema,
@@ -526,6 +565,7 @@ export const ChannelPointsAutomaticRewardRedemptionAdd = defineEventSubscription
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:redemptions',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelPointsAutomaticRewardRedemptionAddConditionSchema,
     event: eventsub.ChannelPointsAutomaticRewardRedemptionAddEventSchema,
@@ -537,6 +577,7 @@ export const ChannelPointsAutomaticRewardRedemptionAddV2 = defineEventSubscripti
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:redemptions',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelPointsAutomaticRewardRedemptionAddConditionSchema,
     event: eventsub.ChannelPointsAutomaticRewardRedemptionAddEventV2Schema,
@@ -548,6 +589,7 @@ export const ChannelPointsCustomRewardAdd = defineEventSubscriptionType<'channel
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:redemptions', 'channel:manage:redemptions'] },
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelPointsCustomRewardAddConditionSchema,
     event: eventsub.ChannelPointsCustomRewardAddEventSchema,
@@ -559,6 +601,7 @@ export const ChannelPointsCustomRewardUpdate = defineEventSubscriptionType<'chan
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:redemptions', 'channel:manage:redemptions'] },
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelPointsCustomRewardUpdateConditionSchema,
     event: eventsub.ChannelPointsCustomRewardUpdateEventSchema,
@@ -570,6 +613,7 @@ export const ChannelPointsCustomRewardRemove = defineEventSubscriptionType<'chan
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:redemptions', 'channel:manage:redemptions'] },
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelPointsCustomRewardRemoveConditionSchema,
     event: eventsub.ChannelPointsCustomRewardRemoveEventSchema,
@@ -581,6 +625,7 @@ export const ChannelPointsCustomRewardRedemptionAdd = defineEventSubscriptionTyp
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:redemptions', 'channel:manage:redemptions'] },
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelPointsCustomRewardRedemptionAddConditionSchema,
     event: eventsub.ChannelPointsCustomRewardRedemptionAddEventSchema,
@@ -592,6 +637,7 @@ export const ChannelPointsCustomRewardRedemptionUpdate = defineEventSubscription
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:redemptions', 'channel:manage:redemptions'] },
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelPointsCustomRewardRedemptionUpdateConditionSchema,
     event: eventsub.ChannelPointsCustomRewardRedemptionUpdateEventSchema,
@@ -603,6 +649,7 @@ export const ChannelPollBegin = defineEventSubscriptionType<'channel.poll.begin'
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:polls', 'channel:manage:polls'] },
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelPollBeginConditionSchema,
     event: eventsub.ChannelPollBeginEventSchema,
@@ -614,6 +661,7 @@ export const ChannelPollProgress = defineEventSubscriptionType<'channel.poll.pro
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:polls', 'channel:manage:polls'] },
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelPollProgressConditionSchema,
     event: eventsub.ChannelPollProgressEventSchema,
@@ -625,6 +673,7 @@ export const ChannelPollEnd = defineEventSubscriptionType<'channel.poll.end', '1
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:polls', 'channel:manage:polls'] },
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelPollEndConditionSchema,
     event: eventsub.ChannelPollEndEventSchema,
@@ -636,6 +685,7 @@ export const ChannelPredictionBegin = defineEventSubscriptionType<'channel.predi
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:predictions', 'channel:manage:predictions'] },
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelPredictionBeginConditionSchema,
     event: eventsub.ChannelPredictionBeginEventSchema,
@@ -647,6 +697,7 @@ export const ChannelPredictionProgress = defineEventSubscriptionType<'channel.pr
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:predictions', 'channel:manage:predictions'] },
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelPredictionProgressConditionSchema,
     event: eventsub.ChannelPredictionProgressEventSchema,
@@ -658,6 +709,7 @@ export const ChannelPredictionLock = defineEventSubscriptionType<'channel.predic
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:predictions', 'channel:manage:predictions'] },
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelPredictionLockConditionSchema,
     event: eventsub.ChannelPredictionLockEventSchema,
@@ -669,6 +721,7 @@ export const ChannelPredictionEnd = defineEventSubscriptionType<'channel.predict
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:predictions', 'channel:manage:predictions'] },
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelPredictionEndConditionSchema,
     event: eventsub.ChannelPredictionEndEventSchema,
@@ -680,6 +733,7 @@ export const ChannelSuspiciousUserMessage = defineEventSubscriptionType<'channel
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:read:suspicious_users',
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.ChannelSuspiciousUserMessageConditionSchema,
     event: eventsub.ChannelSuspiciousUserMessageEventSchema,
@@ -691,6 +745,7 @@ export const ChannelSuspiciousUserUpdate = defineEventSubscriptionType<'channel.
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:read:suspicious_users',
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.ChannelSuspiciousUserUpdateConditionSchema,
     event: eventsub.ChannelSuspiciousUserUpdateEventSchema,
@@ -702,6 +757,7 @@ export const ChannelVIPAdd = defineEventSubscriptionType<'channel.vip.add', '1',
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:vips', 'channel:manage:vips'] },
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelVIPAddConditionSchema,
     event: eventsub.ChannelVIPAddEventSchema,
@@ -713,6 +769,7 @@ export const ChannelVIPRemove = defineEventSubscriptionType<'channel.vip.remove'
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:vips', 'channel:manage:vips'] },
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.ChannelVIPRemoveConditionSchema,
     event: eventsub.ChannelVIPRemoveEventSchema,
@@ -724,6 +781,7 @@ export const ChannelWarningAcknowledgement = defineEventSubscriptionType<'channe
     auth: {
         userAccessToken: true,
         userScopes: { any: ['moderator:read:warnings', 'moderator:manage:warnings'] },
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.ChannelWarningAcknowledgementConditionSchema,
     event: eventsub.ChannelWarningAcknowledgementEventSchema,
@@ -735,6 +793,7 @@ export const ChannelWarningSend = defineEventSubscriptionType<'channel.warning.s
     auth: {
         userAccessToken: true,
         userScopes: { any: ['moderator:read:warnings', 'moderator:manage:warnings'] },
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.ChannelWarningSendConditionSchema,
     event: eventsub.ChannelWarningSendEventSchema,
@@ -746,6 +805,7 @@ export const CharityDonation = defineEventSubscriptionType<'channel.charity_camp
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:charity',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.CharityDonationConditionSchema,
     event: eventsub.CharityDonationEventSchema,
@@ -757,6 +817,7 @@ export const CharityCampaignStart = defineEventSubscriptionType<'channel.charity
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:charity',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.CharityCampaignStartConditionSchema,
     event: eventsub.CharityCampaignStartEventSchema,
@@ -768,6 +829,7 @@ export const CharityCampaignProgress = defineEventSubscriptionType<'channel.char
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:charity',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.CharityCampaignProgressConditionSchema,
     event: eventsub.CharityCampaignProgressEventSchema,
@@ -779,6 +841,7 @@ export const CharityCampaignStop = defineEventSubscriptionType<'channel.charity_
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:charity',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.CharityCampaignStopConditionSchema,
     event: eventsub.CharityCampaignStopEventSchema,
@@ -814,6 +877,7 @@ export const GoalBegin = defineEventSubscriptionType<'channel.goal.begin', '1',
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:goals',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.GoalBeginConditionSchema,
     event: eventsub.GoalBeginEventSchema,
@@ -825,6 +889,7 @@ export const GoalProgress = defineEventSubscriptionType<'channel.goal.progress',
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:goals',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.GoalProgressConditionSchema,
     event: eventsub.GoalProgressEventSchema,
@@ -836,6 +901,7 @@ export const GoalEnd = defineEventSubscriptionType<'channel.goal.end', '1', even
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:goals',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.GoalEndConditionSchema,
     event: eventsub.GoalEndEventSchema,
@@ -847,6 +913,7 @@ export const HypeTrainBegin = defineEventSubscriptionType<'channel.hype_train.be
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:hype_train',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.HypeTrainBeginConditionSchema,
     event: eventsub.HypeTrainBeginEventSchema,
@@ -858,6 +925,7 @@ export const HypeTrainBeginV2 = defineEventSubscriptionType<'channel.hype_train.
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:hype_train',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.HypeTrainBeginConditionSchema,
     event: eventsub.HypeTrainBeginEventV2Schema,
@@ -869,6 +937,7 @@ export const HypeTrainProgress = defineEventSubscriptionType<'channel.hype_train
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:hype_train',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.HypeTrainProgressConditionSchema,
     event: eventsub.HypeTrainProgressEventSchema,
@@ -880,6 +949,7 @@ export const HypeTrainProgressV2 = defineEventSubscriptionType<'channel.hype_tra
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:hype_train',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.HypeTrainProgressConditionSchema,
     event: eventsub.HypeTrainProgressEventV2Schema,
@@ -891,6 +961,7 @@ export const HypeTrainEnd = defineEventSubscriptionType<'channel.hype_train.end'
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:hype_train',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.HypeTrainEndConditionSchema,
     event: eventsub.HypeTrainEndEventSchema,
@@ -902,6 +973,7 @@ export const HypeTrainEndV2 = defineEventSubscriptionType<'channel.hype_train.en
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:hype_train',
+        actingUserField: 'broadcaster_user_id',
     },
     condition: eventsub.HypeTrainEndConditionSchema,
     event: eventsub.HypeTrainEndEventV2Schema,
@@ -913,6 +985,7 @@ export const ShieldModeBegin = defineEventSubscriptionType<'channel.shield_mode.
     auth: {
         userAccessToken: true,
         userScopes: { any: ['moderator:read:shield_mode', 'moderator:manage:shield_mode'] },
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.ShieldModeBeginConditionSchema,
     event: eventsub.ShieldModeBeginEventSchema,
@@ -924,6 +997,7 @@ export const ShieldModeEnd = defineEventSubscriptionType<'channel.shield_mode.en
     auth: {
         userAccessToken: true,
         userScopes: { any: ['moderator:read:shield_mode', 'moderator:manage:shield_mode'] },
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.ShieldModeEndConditionSchema,
     event: eventsub.ShieldModeEndEventSchema,
@@ -935,6 +1009,7 @@ export const ShoutoutCreate = defineEventSubscriptionType<'channel.shoutout.crea
     auth: {
         userAccessToken: true,
         userScopes: { any: ['moderator:read:shoutouts', 'moderator:manage:shoutouts'] },
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.ShoutoutCreateConditionSchema,
     event: eventsub.ShoutoutCreateEventSchema,
@@ -946,6 +1021,7 @@ export const ShoutoutReceived = defineEventSubscriptionType<'channel.shoutout.re
     auth: {
         userAccessToken: true,
         userScopes: { any: ['moderator:read:shoutouts', 'moderator:manage:shoutouts'] },
+        actingUserField: 'moderator_user_id',
     },
     condition: eventsub.ShoutoutReceivedConditionSchema,
     event: eventsub.ShoutoutReceivedEventSchema,
@@ -989,6 +1065,7 @@ export const UserUpdate = defineEventSubscriptionType<'user.update', '1', events
     auth: {
         userAccessToken: true,
         userScopes: 'user:read:email',
+        actingUserField: 'user_id',
     },
     condition: eventsub.UserUpdateConditionSchema,
     event: eventsub.UserUpdateEventSchema,
@@ -1000,6 +1077,7 @@ export const WhisperReceived = defineEventSubscriptionType<'user.whisper.message
     auth: {
         userAccessToken: true,
         userScopes: { any: ['user:read:whispers', 'user:manage:whispers'] },
+        actingUserField: 'user_id',
     },
     condition: eventsub.WhisperReceivedConditionSchema,
     event: eventsub.WhisperReceivedEventSchema,
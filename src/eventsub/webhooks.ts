@@ -1,5 +1,5 @@
 import type z from "zod"
-import type { AppAccessTokenProvider } from "../auth/auth.js"
+import type { AppAccessTokenProvider, AuthContext } from "../auth/auth.js"
 import type { CreateEventSubSubscriptionRequestBody } from "../helix/types.js"
 import { createExposedAsyncGenerator, type ExposedAsyncGenerator } from "../utils/async.js"
 import { type KeyCache, FifoKeyCache } from "../utils/cache.js"
@@ -14,7 +14,8 @@ type FunctionNameFromEventTypeKey<K extends EventTypeKeys> = K extends `${infer
     ? `${Lowercase<FirstLetter>}${Rest}`
     : never
 
-type SubscribeFunctionOptions = {
+type SubscribeFunctionOptions = Omit<AuthContext, 'clientID' | 'appAccessToken'> & {
+    clientID?: string | undefined
     appAccessToken: AppAccessTokenProvider
     callbackUrl?: string
     signal?: AbortSignal
@@ -37,6 +38,7 @@ interface SubscriptionState {
     id: string
     state: 'active' | 'inactive' | 'revoked'
     request: CreateEventSubSubscriptionRequestBody
+    clientID: string | undefined
     appAccessToken: AppAccessTokenProvider
     callbackUrl: string
     secret: string
@@ -305,10 +307,11 @@ export class DefaultWebhookClient implements WebhookClient {
     /**
      * Unsubscribes from an active EventSub subscription managed by this client.
      * @param subscriptionID The ID of the subscription to unsubscribe from.
+     * @param options.clientID An optional Client ID to use for the unsubscription request. If not provided, the one used during subscription creation will be used.
      * @param options.appAccessToken An optional App Access Token provider to use for the unsubscription request. If not provided, the one used during subscription creation will be used.
      * @param options.signal An optional AbortSignal to cancel the unsubscription request.
      */
-    public async unsubscribe(subscriptionID: string, options?: { appAccessToken?: AppAccessTokenProvider, signal?: AbortSignal }): Promise<void> {
+    public async unsubscribe(subscriptionID: string, options?: { clientID?: string, appAccessToken?: AppAccessTokenProvider, signal?: AbortSignal }): Promise<void> {
         const subState = this.subscriptions.get(subscriptionID)
         if (!subState) {
             throw new WebhookError(`No active subscription with ID ${subscriptionID}`)
@@ -316,6 +319,7 @@ export class DefaultWebhookClient implements WebhookClient {
         try {
             subState.state = 'inactive'
             await this.services.helixClient.deleteEventSubSubscription({
+                clientID: options?.clientID ?? subState.clientID,
                 appAccessToken: options?.appAccessToken ?? subState.appAccessToken,
                 query: {
                     id: subscriptionID,
@@ -333,7 +337,7 @@ export class DefaultWebhookClient implements WebhookClient {
     }
 
     private async subscribe<K extends EventTypeKeys>(eventKey: K, condition: z.Infer<EventTypeDefinition<K>['condition']>, options: SubscribeFunctionOptions): Promise<SubscribeFunctionResult<K>> {
-        const { appAccessToken, signal } = options
+        const { clientID, appAccessToken, signal } = options
 
         const eventType = ALL_SUBSCRIPTION_TYPES[eventKey] as EventTypeDefinition<K>
         if (!eventType) {
@@ -360,6 +364,7 @@ export class DefaultWebhookClient implements WebhookClient {
         }
 
         const response = await this.services.helixClient.createEventSubSubscription({
+            clientID,
             appAccessToken,
             body: request,
             signal,
@@ -374,6 +379,7 @@ export class DefaultWebhookClient implements WebhookClient {
             id: sub.id,
             state: 'active',
             request,
+            clientID,
             appAccessToken,
             callbackUrl,
             secret,
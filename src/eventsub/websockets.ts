@@ -1,5 +1,5 @@
 import * as z from "zod"
-import type { UserAccessTokenProvider } from "../auth/auth.js"
+import type { AuthContext, UserAccessTokenProvider } from "../auth/auth.js"
 import type { HelixClient } from "../helix/helix.js"
 import type { CreateEventSubSubscriptionRequestBody } from "../helix/types.js"
 import { createExposedAsyncGenerator, type ExposedAsyncGenerator } from "../utils/async.js"
@@ -13,7 +13,8 @@ type FunctionNameFromEventTypeKey<K extends EventTypeKeys> = K extends `${infer
   ? `${Lowercase<FirstLetter>}${Rest}`
   : never
 
-type SubscribeFunctionOptions = {
+type SubscribeFunctionOptions = Omit<AuthContext, 'clientID' | 'userAccessToken'> & {
+    clientID?: string | undefined
     userAccessToken: UserAccessTokenProvider
     signal?: AbortSignal
 }
@@ -35,6 +36,7 @@ interface SubscriptionState {
     id: string
     state: 'active' | 'inactive' | 'revoked'
     request: CreateEventSubSubscriptionRequestBody
+    clientID: string | undefined
     userAccessToken: UserAccessTokenProvider
     generator: ExposedAsyncGenerator<AnyEventResult>
 }
@@ -246,7 +248,7 @@ export class DefaultWebSocketClient implements WebSocketClient {
     }
 
     private async subscribe<K extends EventTypeKeys>(eventKey: K, condition: z.Infer<EventTypeDefinition<K>['condition']>, options: SubscribeFunctionOptions): Promise<SubscribeFunctionResult<K>> {
-        const { userAccessToken, signal } = options
+        const { clientID, userAccessToken, signal } = options
         
         const session = this.activeSession ?? await this.openSession()
 
@@ -271,6 +273,7 @@ export class DefaultWebSocketClient implements WebSocketClient {
         }
 
         const response = await this.services.helixClient.createEventSubSubscription({
+            clientID,
             userAccessToken,
             body: request,
             signal,
@@ -285,6 +288,7 @@ export class DefaultWebSocketClient implements WebSocketClient {
             id: sub.id,
             state: 'active',
             request,
+            clientID,
             userAccessToken,
             generator,
         }
@@ -316,7 +320,7 @@ export class DefaultWebSocketClient implements WebSocketClient {
         return result
     }
 
-    public async unsubscribe(subscriptionID: string, options?: { userAccessToken?: UserAccessTokenProvider, signal?: AbortSignal }): Promise<void> {
+    public async unsubscribe(subscriptionID: string, options?: { clientID?: string, userAccessToken?: UserAccessTokenProvider, signal?: AbortSignal }): Promise<void> {
         const subState = this.subscriptions.get(subscriptionID)
         if (!subState) {
             throw new Error(`No active subscription with ID ${subscriptionID}`)
@@ -324,6 +328,7 @@ export class DefaultWebSocketClient implements WebSocketClient {
         try {
             subState.state = 'inactive'
             await this.services.helixClient.deleteEventSubSubscription({
+                clientID: options?.clientID ?? subState.clientID,
                 userAccessToken: options?.userAccessToken ?? subState.userAccessToken,
                 query: {
                     id: subscriptionID,
@@ -447,6 +452,7 @@ export class DefaultWebSocketClient implements WebSocketClient {
             Promise.all(Array.from(this.subscriptions.values()).map(async subState => {
                 try {
                     const response = await this.services.helixClient.createEventSubSubscription({
+                        clientID: subState.clientID,
                         userAccessToken: subState.userAccessToken,
                         body: {
                             ...subState.request,
@@ -0,0 +1,249 @@
+import { getAbortError } from '../utils/abort.js'
+import type { EndpointCallOptions, HelixClient } from './helix.js'
+import type { GetChannelInformationResponseBody, GetGamesResponseBody, GetStreamsResponseBody, GetUsersResponseBody } from './types.js'
+
+// Helix accepts up to 100 IDs or logins per lookup request
+const MAX_BATCH_SIZE = 100
+
+export type HelixUser = GetUsersResponseBody['data'][number]
+export type HelixStream = GetStreamsResponseBody['data'][number]
+export type HelixGame = GetGamesResponseBody['data'][number]
+export type HelixChannelInformation = GetChannelInformationResponseBody['data'][number]
+
+/**
+ * The result of a batched lookup. Keys that Twitch did not return any data for resolve as not found instead of throwing.
+ */
+export type HelixLookupResult<T> = {
+    found: true
+    key: string
+    data: T
+} | {
+    found: false
+    key: string
+}
+
+interface HelixBatchLoaderDefinition<T> {
+    /**
+     * Fetches the items for up to 100 unique keys in a single request
+     */
+    fetch: (keys: string[], options: EndpointCallOptions) => Promise<T[]>
+    /**
+     * Returns the key an item in the response was requested by
+     */
+    getKey: (item: T) => string
+    /**
+     * Normalizes keys before deduplication and matching, e.g. to make logins case-insensitive
+     */
+    normalizeKey?: (key: string) => string
+}
+
+type Waiter<T> = (result: HelixLookupResult<T> | Error) => void
+
+interface PendingBatch<T> {
+    options: EndpointCallOptions
+    waiters: Map<string, Waiter<T>[]>
+    timeoutID: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Groups lookups made close together into batched requests, deduplicating keys and splitting large lists into chunks of 100.
+ */
+export class HelixBatchLoader<T> {
+    private pendingBatches: PendingBatch<T>[] = []
+
+    /**
+     * @param definition Describes how to fetch items for a batch of keys and match them back up to their keys.
+     * @param batchDelayMs How long to wait for more lookups before sending a batch.
+     */
+    constructor(
+        private readonly definition: HelixBatchLoaderDefinition<T>,
+        private readonly batchDelayMs: number,
+    ) {
+
+    }
+
+    /**
+     * Looks up a single key. The lookup is sent together with any other lookups made with the same tokens within the batch delay.
+     * @param key The ID, login or name to look up.
+     * @param options The tokens to make the request with. Aborting the signal rejects this lookup without cancelling the rest of the batch.
+     */
+    load(key: string, options: EndpointCallOptions): Promise<HelixLookupResult<T>> {
+        const normalizedKey = this.definition.normalizeKey?.(key) ?? key
+        return new Promise<HelixLookupResult<T>>((resolve, reject) => {
+            const { signal } = options
+            if (signal?.aborted) {
+                reject(getAbortError())
+                return
+            }
+
+            const batch = this.getPendingBatch(options)
+            const waiter: Waiter<T> = result => {
+                signal?.removeEventListener('abort', onAbort)
+                if (result instanceof Error) {
+                    reject(result)
+                } else {
+                    // Report the key as the caller passed it rather than its normalized form
+                    resolve({ ...result, key })
+                }
+            }
+            const onAbort = () => {
+                this.removeWaiter(batch, normalizedKey, waiter)
+                reject(getAbortError())
+            }
+            signal?.addEventListener('abort', onAbort, { once: true })
+
+            let waiters = batch.waiters.get(normalizedKey)
+            if (!waiters) {
+                waiters = []
+                batch.waiters.set(normalizedKey, waiters)
+            }
+            waiters.push(waiter)
+
+            if (batch.waiters.size >= MAX_BATCH_SIZE) {
+                this.dispatch(batch)
+            }
+        })
+    }
+
+    /**
+     * Looks up many keys, splitting them into requests of up to 100 keys each. Results are returned in the same order as the keys.
+     * @param keys The IDs, logins or names to look up.
+     * @param options The tokens to make the requests with.
+     */
+    loadMany(keys: string[], options: EndpointCallOptions): Promise<HelixLookupResult<T>[]> {
+        return Promise.all(keys.map(key => this.load(key, options)))
+    }
+
+    private getPendingBatch(options: EndpointCallOptions): PendingBatch<T> {
+        // Lookups can only share a request if they would be made with the same Client ID and tokens
+        const existing = this.pendingBatches.find(b => b.options.clientID === options.clientID && b.options.userAccessToken === options.userAccessToken && b.options.appAccessToken === options.appAccessToken)
+        if (existing) {
+            return existing
+        }
+        // The batch is sent without the signal of the lookup that started it, since aborting one lookup must not cancel the others
+        const { signal: _signal, ...batchOptions } = options
+        const batch: PendingBatch<T> = {
+            options: batchOptions,
+            waiters: new Map(),
+            timeoutID: setTimeout(() => this.dispatch(batch), this.batchDelayMs),
+        }
+        this.pendingBatches.push(batch)
+        return batch
+    }
+
+    /**
+     * Drops an aborted lookup from its batch, so its key isn't requested for nobody, and cancels the batch if no lookups are left in it
+     */
+    private removeWaiter(batch: PendingBatch<T>, key: string, waiter: Waiter<T>): void {
+        const waiters = batch.waiters.get(key)?.filter(w => w !== waiter) ?? []
+        if (waiters.length > 0) {
+            batch.waiters.set(key, waiters)
+        } else {
+            batch.waiters.delete(key)
+        }
+        // Batches that were already sent are left to settle their remaining lookups
+        if (batch.waiters.size === 0 && this.pendingBatches.includes(batch)) {
+            clearTimeout(batch.timeoutID)
+            this.pendingBatches = this.pendingBatches.filter(b => b !== batch)
+        }
+    }
+
+    private async dispatch(batch: PendingBatch<T>): Promise<void> {
+        clearTimeout(batch.timeoutID)
+        this.pendingBatches = this.pendingBatches.filter(b => b !== batch)
+
+        const keys = Array.from(batch.waiters.keys())
+        const settle = (key: string, result: HelixLookupResult<T> | Error) => {
+            for (const waiter of batch.waiters.get(key) ?? []) {
+                waiter(result)
+            }
+        }
+        try {
+            const items = await this.definition.fetch(keys, batch.options)
+            const itemsByKey = new Map<string, T>()
+            for (const item of items) {
+                const itemKey = this.definition.getKey(item)
+                itemsByKey.set(this.definition.normalizeKey?.(itemKey) ?? itemKey, item)
+            }
+            for (const key of keys) {
+                const item = itemsByKey.get(key)
+                settle(key, item !== undefined ? { found: true, key, data: item } : { found: false, key })
+            }
+        } catch (e) {
+            const error = e instanceof Error ? e : new Error(String(e))
+            for (const key of keys) {
+                settle(key, error)
+            }
+        }
+    }
+}
+
+export interface HelixBatcher {
+    usersByID: HelixBatchLoader<HelixUser>
+    usersByLogin: HelixBatchLoader<HelixUser>
+    streamsByUserID: HelixBatchLoader<HelixStream>
+    streamsByUserLogin: HelixBatchLoader<HelixStream>
+    gamesByID: HelixBatchLoader<HelixGame>
+    gamesByName: HelixBatchLoader<HelixGame>
+    channelInformationByID: HelixBatchLoader<HelixChannelInformation>
+}
+
+const toLowerCase = (key: string) => key.toLowerCase()
+
+/**
+ * Opt-in batching layer on top of a {@link HelixClient} for the endpoints that accept up to 100 IDs or logins per request.
+ */
+export class DefaultHelixBatcher implements HelixBatcher {
+    readonly usersByID: HelixBatchLoader<HelixUser>
+    readonly usersByLogin: HelixBatchLoader<HelixUser>
+    readonly streamsByUserID: HelixBatchLoader<HelixStream>
+    readonly streamsByUserLogin: HelixBatchLoader<HelixStream>
+    readonly gamesByID: HelixBatchLoader<HelixGame>
+    readonly gamesByName: HelixBatchLoader<HelixGame>
+    readonly channelInformationByID: HelixBatchLoader<HelixChannelInformation>
+
+    /**
+     * @param services.helixClient The client to send batched requests with.
+     * @param batchDelayMs How long to wait for more lookups before sending a batch. Defaults to 0, which batches lookups made in the same tick.
+     */
+    constructor(
+        private readonly services: {
+            helixClient: HelixClient,
+        },
+        batchDelayMs: number = 0,
+    ) {
+        const { helixClient } = this.services
+        this.usersByID = new HelixBatchLoader({
+            fetch: async (id, options) => (await helixClient.getUsers({ ...options, query: { id } })).data,
+            getKey: user => user.id,
+        }, batchDelayMs)
+        this.usersByLogin = new HelixBatchLoader({
+            fetch: async (login, options) => (await helixClient.getUsers({ ...options, query: { login } })).data,
+            getKey: user => user.login,
+            normalizeKey: toLowerCase,
+        }, batchDelayMs)
+        this.streamsByUserID = new HelixBatchLoader({
+            // Streams default to pages of 20, so the page size must be raised to fit a full batch
+            fetch: async (user_id, options) => (await helixClient.getStreams({ ...options, query: { user_id, first: MAX_BATCH_SIZE } })).data,
+            getKey: stream => stream.user_id,
+        }, batchDelayMs)
+        this.streamsByUserLogin = new HelixBatchLoader({
+            fetch: async (user_login, options) => (await helixClient.getStreams({ ...options, query: { user_login, first: MAX_BATCH_SIZE } })).data,
+            getKey: stream => stream.user_login,
+            normalizeKey: toLowerCase,
+        }, batchDelayMs)
+        this.gamesByID = new HelixBatchLoader({
+            fetch: async (id, options) => (await helixClient.getGames({ ...options, query: { id } })).data,
+            getKey: game => game.id,
+        }, batchDelayMs)
+        this.gamesByName = new HelixBatchLoader({
+            fetch: async (name, options) => (await helixClient.getGames({ ...options, query: { name } })).data,
+            getKey: game => game.name,
+            normalizeKey: toLowerCase,
+        }, batchDelayMs)
+        this.channelInformationByID = new HelixBatchLoader({
+            fetch: async (broadcaster_id, options) => (await helixClient.getChannelInformation({ ...options, query: { broadcaster_id } })).data,
+            getKey: channel => channel.broadcaster_id,
+        }, batchDelayMs)
+    }
+}
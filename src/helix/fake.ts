@@ -0,0 +1,539 @@
+import type * as z from 'zod'
+import type { HelixErrorBody, HelixHttpClient, HelixHttpRequestArgs, HelixHttpResponse } from './helix.js'
+import { ALL_ENDPOINTS, type CreateCustomRewardsResponseBody, type GetBroadcasterSubscriptionsResponseBody, type GetChannelInformationResponseBody, type GetUsersResponseBody, type InferRequestBody, type InferRequestQuery } from './types.js'
+
+const BASE_URL = 'https://api.twitch.tv/helix/'
+
+// Twitch gives each token a bucket of 800 points per minute
+const DEFAULT_RATE_LIMIT = 800
+const DEFAULT_RATE_LIMIT_WINDOW_SECONDS = 60
+
+const DEFAULT_PAGE_SIZE = 20
+
+type AllEndpoints = typeof ALL_ENDPOINTS
+type EndpointName = keyof AllEndpoints
+
+export type FakeHelixUser = GetUsersResponseBody['data'][number]
+export type FakeHelixChannel = GetChannelInformationResponseBody['data'][number]
+export type FakeHelixCustomReward = CreateCustomRewardsResponseBody['data'][number]
+export type FakeHelixSubscription = GetBroadcasterSubscriptionsResponseBody['data'][number]
+
+export interface FakeHelixBan {
+    broadcaster_id: string
+    user_id: string
+    moderator_id: string
+    reason: string
+    created_at: string
+    /** When a timeout ends, or null for a permanent ban */
+    expires_at: string | null
+}
+
+/**
+ * The in-memory data the fake serves responses from. Tests can seed and inspect it directly.
+ */
+export interface FakeHelixState {
+    users: FakeHelixUser[]
+    channels: FakeHelixChannel[]
+    bans: FakeHelixBan[]
+    rewards: FakeHelixCustomReward[]
+    subscriptions: FakeHelixSubscription[]
+    /** Maps access tokens to the ID of the user they belong to, for endpoints that act on the token's user */
+    tokenUserIDs: Record<string, string>
+}
+
+export interface FakeHelixRequest<N extends EndpointName> {
+    query: InferRequestQuery<AllEndpoints[N]>
+    body: InferRequestBody<AllEndpoints[N]>
+    /** The access token the request was made with */
+    accessToken: string
+    state: FakeHelixState
+}
+
+/**
+ * Handles a request to a single endpoint, returning the raw response body for the endpoint's first success status or throwing a {@link FakeHelixError} to fail the request
+ */
+export type FakeHelixHandler<N extends EndpointName> = (request: FakeHelixRequest<N>) => z.input<AllEndpoints[N]['responseBody']> | Promise<z.input<AllEndpoints[N]['responseBody']>>
+
+export type FakeHelixHandlers = { [N in EndpointName]?: FakeHelixHandler<N> }
+
+export interface FakeHelixInjectedResponse {
+    status: number
+    /** Only fail requests to this endpoint. Defaults to any endpoint. */
+    endpoint?: EndpointName | undefined
+    /** How many requests to fail. Defaults to 1. */
+    times?: number | undefined
+    message?: string | undefined
+}
+
+export interface FakeHelixRequestLogEntry {
+    endpoint: EndpointName
+    request: HelixHttpRequestArgs
+    response: HelixHttpResponse
+}
+
+/**
+ * Thrown by handlers to respond with a Twitch error body
+ */
+export class FakeHelixError extends Error {
+    constructor(
+        public readonly status: number,
+        message: string,
+    ) {
+        super(message)
+        this.name = 'FakeHelixError'
+    }
+}
+
+interface InjectedResponse {
+    status: number
+    endpoint: EndpointName | undefined
+    times: number
+    message: string
+}
+
+interface RateLimitBucket {
+    remaining: number
+    resetAt: number
+}
+
+const STATUS_TEXTS: Record<number, string> = {
+    400: 'Bad Request',
+    401: 'Unauthorized',
+    403: 'Forbidden',
+    404: 'Not Found',
+    409: 'Conflict',
+    422: 'Unprocessable Entity',
+    429: 'Too Many Requests',
+    500: 'Internal Server Error',
+    501: 'Not Implemented',
+    503: 'Service Unavailable',
+}
+
+function createErrorBody(status: number, message: string): HelixErrorBody {
+    return {
+        error: STATUS_TEXTS[status] ?? 'Error',
+        status,
+        message,
+    }
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+    return value === undefined ? [] : Array.isArray(value) ? value : [value]
+}
+
+/**
+ * Returns a page of items using the item offset as the cursor, the way the paginated Helix endpoints page through results
+ */
+function paginate<T>(items: T[], query: { first?: number | undefined, after?: string | undefined }): { data: T[], pagination: { cursor?: string } } {
+    const start = query.after ? parseInt(query.after, 10) : 0
+    const end = start + (query.first ?? DEFAULT_PAGE_SIZE)
+    return {
+        data: items.slice(start, end),
+        pagination: end < items.length ? { cursor: String(end) } : {},
+    }
+}
+
+function getTierPoints(tier: string): number {
+    switch (tier) {
+        case '2000': return 2
+        case '3000': return 6
+        default: return 1
+    }
+}
+
+/**
+ * Creates an empty state to seed a {@link FakeHelixHttpClient} with
+ */
+export function createFakeHelixState(state: Partial<FakeHelixState> = {}): FakeHelixState {
+    return {
+        users: [],
+        channels: [],
+        bans: [],
+        rewards: [],
+        subscriptions: [],
+        tokenUserIDs: {},
+        ...state,
+    }
+}
+
+function findUser(state: FakeHelixState, id: string): FakeHelixUser {
+    const user = state.users.find(u => u.id === id)
+    if (!user) {
+        throw new FakeHelixError(400, `User ${id} does not exist`)
+    }
+    return user
+}
+
+function isBanActive(ban: FakeHelixBan): boolean {
+    return ban.expires_at === null || Date.parse(ban.expires_at) > Date.now()
+}
+
+function applyCustomRewardUpdate(reward: FakeHelixCustomReward, update: InferRequestBody<AllEndpoints['UpdateCustomReward']>): void {
+    if (update.cost !== undefined && update.cost < 1) {
+        throw new FakeHelixError(400, 'The cost must be at least 1')
+    }
+    reward.title = update.title ?? reward.title
+    reward.cost = update.cost ?? reward.cost
+    reward.prompt = update.prompt ?? reward.prompt
+    reward.is_enabled = update.is_enabled ?? reward.is_enabled
+    reward.background_color = update.background_color ?? reward.background_color
+    reward.is_user_input_required = update.is_user_input_required ?? reward.is_user_input_required
+    reward.max_per_stream_setting.is_enabled = update.is_max_per_stream_enabled ?? reward.max_per_stream_setting.is_enabled
+    reward.max_per_stream_setting.max_per_stream = update.max_per_stream ?? reward.max_per_stream_setting.max_per_stream
+    reward.max_per_user_per_stream_setting.is_enabled = update.is_max_per_user_per_stream_enabled ?? reward.max_per_user_per_stream_setting.is_enabled
+    reward.max_per_user_per_stream_setting.max_per_user_per_stream = update.max_per_user_per_stream ?? reward.max_per_user_per_stream_setting.max_per_user_per_stream
+    reward.global_cooldown_setting.is_enabled = update.is_global_cooldown_enabled ?? reward.global_cooldown_setting.is_enabled
+    reward.global_cooldown_setting.global_cooldown_seconds = update.global_cooldown_seconds ?? reward.global_cooldown_setting.global_cooldown_seconds
+    reward.is_paused = update.is_paused ?? reward.is_paused
+    reward.should_redemptions_skip_request_queue = update.should_redemptions_skip_request_queue ?? reward.should_redemptions_skip_request_queue
+}
+
+const DEFAULT_HANDLERS: FakeHelixHandlers = {
+    GetUsers: ({ query, accessToken, state }) => {
+        const ids = toArray(query.id)
+        const logins = toArray(query.login).map(login => login.toLowerCase())
+        if (ids.length === 0 && logins.length === 0) {
+            // Without any IDs or logins, Twitch returns the user the token belongs to
+            const tokenUserID = state.tokenUserIDs[accessToken]
+            return { data: state.users.filter(u => u.id === tokenUserID) }
+        }
+        if (ids.length + logins.length > 100) {
+            throw new FakeHelixError(400, 'The combined number of id and login parameters must not exceed 100')
+        }
+        return { data: state.users.filter(u => ids.includes(u.id) || logins.includes(u.login)) }
+    },
+    GetChannelInformation: ({ query, state }) => {
+        const ids = toArray(query.broadcaster_id)
+        return { data: state.channels.filter(c => ids.includes(c.broadcaster_id)) }
+    },
+    ModifyChannelInformation: ({ query, body, state }) => {
+        const channel = state.channels.find(c => c.broadcaster_id === query.broadcaster_id)
+        if (!channel) {
+            throw new FakeHelixError(400, `Channel ${query.broadcaster_id} does not exist`)
+        }
+        Object.assign(channel, Object.fromEntries(Object.entries(body).filter(([, value]) => value !== undefined)))
+        return undefined
+    },
+    BanUser: ({ query, body, state }) => {
+        const { user_id, duration, reason } = body.data
+        findUser(state, user_id)
+        if (user_id === query.broadcaster_id) {
+            throw new FakeHelixError(400, 'The user specified in the user_id field may not be banned')
+        }
+        if (duration !== undefined && (duration < 1 || duration > 1209600)) {
+            throw new FakeHelixError(400, 'The value in the duration field is not valid')
+        }
+        const existing = state.bans.find(b => b.broadcaster_id === query.broadcaster_id && b.user_id === user_id && isBanActive(b))
+        if (existing && existing.expires_at === null) {
+            throw new FakeHelixError(400, 'The user specified in the user_id field is already banned')
+        }
+        // Timing out a user who is already timed out replaces the existing timeout
+        state.bans = state.bans.filter(b => b !== existing)
+        const now = Date.now()
+        const ban: FakeHelixBan = {
+            broadcaster_id: query.broadcaster_id,
+            user_id,
+            moderator_id: query.moderator_id,
+            reason: reason ?? '',
+            created_at: new Date(now).toISOString(),
+            expires_at: duration !== undefined ? new Date(now + duration * 1000).toISOString() : null,
+        }
+        state.bans.push(ban)
+        return {
+            data: [{
+                broadcaster_id: ban.broadcaster_id,
+                moderator_id: ban.moderator_id,
+                user_id: ban.user_id,
+                created_at: ban.created_at,
+                end_time: ban.expires_at,
+            }],
+        }
+    },
+    UnbanUser: ({ query, state }) => {
+        const existing = state.bans.find(b => b.broadcaster_id === query.broadcaster_id && b.user_id === query.user_id && isBanActive(b))
+        if (!existing) {
+            throw new FakeHelixError(400, 'The user specified in the user_id field is not banned')
+        }
+        state.bans = state.bans.filter(b => b !== existing)
+        return undefined
+    },
+    GetBannedUsers: ({ query, state }) => {
+        const userIDs = toArray(query.user_id)
+        const bans = state.bans
+            .filter(b => b.broadcaster_id === query.broadcaster_id && isBanActive(b))
+            .filter(b => userIDs.length === 0 || userIDs.includes(b.user_id))
+            .map(b => {
+                const user = state.users.find(u => u.id === b.user_id)
+                const moderator = state.users.find(u => u.id === b.moderator_id)
+                return {
+                    user_id: b.user_id,
+                    user_login: user?.login ?? '',
+                    user_name: user?.display_name ?? '',
+                    // Twitch reports permanent bans with an empty expiry
+                    expires_at: b.expires_at ?? '',
+                    created_at: b.created_at,
+                    reason: b.reason,
+                    moderator_id: b.moderator_id,
+                    moderator_login: moderator?.login ?? '',
+                    moderator_name: moderator?.display_name ?? '',
+                }
+            })
+        return paginate(bans, query)
+    },
+    CreateCustomRewards: ({ query, body, state }) => {
+        const broadcaster = findUser(state, query.broadcaster_id)
+        if (body.cost < 1) {
+            throw new FakeHelixError(400, 'The cost must be at least 1')
+        }
+        if (state.rewards.some(r => r.broadcaster_id === broadcaster.id && r.title === body.title)) {
+            throw new FakeHelixError(400, 'CREATE_CUSTOM_REWARD_DUPLICATE_REWARD')
+        }
+        const reward: FakeHelixCustomReward = {
+            broadcaster_id: broadcaster.id,
+            broadcaster_login: broadcaster.login,
+            broadcaster_name: broadcaster.display_name,
+            id: crypto.randomUUID(),
+            title: body.title,
+            prompt: '',
+            cost: body.cost,
+            image: null,
+            default_image: {
+                url_1x: 'https://static-cdn.jtvnw.net/custom-reward-images/default-1.png',
+                url_2x: 'https://static-cdn.jtvnw.net/custom-reward-images/default-2.png',
+                url_4x: 'https://static-cdn.jtvnw.net/custom-reward-images/default-4.png',
+            },
+            background_color: '#9147FF',
+            is_enabled: true,
+            is_user_input_required: false,
+            max_per_stream_setting: { is_enabled: false, max_per_stream: 0 },
+            max_per_user_per_stream_setting: { is_enabled: false, max_per_user_per_stream: 0 },
+            global_cooldown_setting: { is_enabled: false, global_cooldown_seconds: 0 },
+            is_paused: false,
+            is_in_stock: true,
+            should_redemptions_skip_request_queue: false,
+            redemptions_redeemed_current_stream: null,
+            cooldown_expires_at: null,
+        }
+        applyCustomRewardUpdate(reward, body)
+        state.rewards.push(reward)
+        return { data: [reward] }
+    },
+    GetCustomReward: ({ query, state }) => {
+        const ids = toArray(query.id)
+        const rewards = state.rewards
+            .filter(r => r.broadcaster_id === query.broadcaster_id)
+            .filter(r => ids.length === 0 || ids.includes(r.id))
+        if (ids.length > 0 && rewards.length === 0) {
+            throw new FakeHelixError(404, 'No custom rewards with the specified IDs were found')
+        }
+        return { data: rewards }
+    },
+    UpdateCustomReward: ({ query, body, state }) => {
+        const reward = state.rewards.find(r => r.broadcaster_id === query.broadcaster_id && r.id === query.id)
+        if (!reward) {
+            throw new FakeHelixError(404, 'The custom reward was not found')
+        }
+        applyCustomRewardUpdate(reward, body)
+        return { data: [reward] }
+    },
+    DeleteCustomReward: ({ query, state }) => {
+        const reward = state.rewards.find(r => r.broadcaster_id === query.broadcaster_id && r.id === query.id)
+        if (!reward) {
+            throw new FakeHelixError(404, 'The custom reward was not found')
+        }
+        state.rewards = state.rewards.filter(r => r !== reward)
+        return undefined
+    },
+    GetBroadcasterSubscriptions: ({ query, state }) => {
+        const userIDs = toArray(query.user_id)
+        const subscriptions = state.subscriptions.filter(s => s.broadcaster_id === query.broadcaster_id)
+        return {
+            ...paginate(subscriptions.filter(s => userIDs.length === 0 || userIDs.includes(s.user_id)), query),
+            total: subscriptions.length,
+            points: subscriptions.reduce((points, s) => points + getTierPoints(s.tier), 0),
+        }
+    },
+    CheckUserSubscription: ({ query, state }) => {
+        const subscription = state.subscriptions.find(s => s.broadcaster_id === query.broadcaster_id && s.user_id === query.user_id)
+        if (!subscription) {
+            throw new FakeHelixError(404, `${query.user_id} has no subscription to ${query.broadcaster_id}`)
+        }
+        return {
+            data: [{
+                broadcaster_id: subscription.broadcaster_id,
+                broadcaster_login: subscription.broadcaster_login,
+                broadcaster_name: subscription.broadcaster_name,
+                gifter_id: subscription.gifter_id,
+                gifter_login: subscription.gifter_login,
+                gifter_name: subscription.gifter_name,
+                is_gift: subscription.is_gift,
+                tier: subscription.tier,
+            }],
+        }
+    },
+}
+
+/**
+ * An offline {@link HelixHttpClient} for tests. Requests are routed to endpoints by method and path, validated against the endpoint schemas, and answered from in-memory state, with rate limit headers tracked per token the way Twitch does.
+ */
+export class FakeHelixHttpClient implements HelixHttpClient {
+    readonly state: FakeHelixState
+    /**
+     * Every request the fake received, in order
+     */
+    readonly requests: FakeHelixRequestLogEntry[] = []
+
+    private readonly routes = new Map<string, EndpointName>()
+    private readonly handlers: FakeHelixHandlers
+    private readonly rateLimit: { limit: number, windowSeconds: number }
+    private readonly rateLimitBuckets = new Map<string, RateLimitBucket>()
+    private injectedResponses: InjectedResponse[] = []
+
+    /**
+     * @param options.state The data to serve. Defaults to an empty state.
+     * @param options.handlers Handlers that replace or add to the built-in ones. Endpoints without a handler respond with 501 (Not Implemented).
+     * @param options.rateLimit The size of each token's rate limit bucket and how often it refills.
+     */
+    constructor(options: {
+        state?: FakeHelixState,
+        handlers?: FakeHelixHandlers,
+        rateLimit?: { limit: number, windowSeconds: number },
+    } = {}) {
+        this.state = options.state ?? createFakeHelixState()
+        this.handlers = { ...DEFAULT_HANDLERS, ...options.handlers }
+        this.rateLimit = options.rateLimit ?? { limit: DEFAULT_RATE_LIMIT, windowSeconds: DEFAULT_RATE_LIMIT_WINDOW_SECONDS }
+        for (const endpointName of Object.keys(ALL_ENDPOINTS) as EndpointName[]) {
+            const endpoint = ALL_ENDPOINTS[endpointName]
+            this.routes.set(`${endpoint.method} ${endpoint.path}`, endpointName)
+        }
+    }
+
+    /**
+     * Replaces the handler for an endpoint
+     */
+    setHandler<N extends EndpointName>(endpointName: N, handler: FakeHelixHandler<N>): void {
+        (this.handlers as Record<string, unknown>)[endpointName] = handler
+    }
+
+    /**
+     * Makes upcoming requests fail with the given status instead of reaching their handlers, e.g. a 401 to exercise token refreshes or a 503 to exercise retries. Injected 429s report an exhausted bucket that resets a second later, so clients don't wait out the whole rate limit window.
+     */
+    injectResponse(response: FakeHelixInjectedResponse): void {
+        this.injectedResponses.push({
+            status: response.status,
+            endpoint: response.endpoint,
+            times: response.times ?? 1,
+            message: response.message ?? STATUS_TEXTS[response.status] ?? 'Injected error',
+        })
+    }
+
+    async fetch(args: HelixHttpRequestArgs): Promise<HelixHttpResponse> {
+        args.signal?.throwIfAborted()
+        const path = args.url.startsWith(BASE_URL) ? args.url.slice(BASE_URL.length) : args.url
+        const endpointName = this.routes.get(`${args.method} ${path}`)
+        if (!endpointName) {
+            throw new Error(`FakeHelixHttpClient has no endpoint for ${args.method} ${args.url}`)
+        }
+        const response = await this.handle(endpointName, args)
+        this.requests.push({ endpoint: endpointName, request: args, response })
+        return response
+    }
+
+    private async handle(endpointName: EndpointName, args: HelixHttpRequestArgs): Promise<HelixHttpResponse> {
+        const endpoint = ALL_ENDPOINTS[endpointName]
+        const headers = args.headers ?? {}
+        const authorization = headers['Authorization']
+        const accessToken = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : null
+        if (!accessToken) {
+            return this.respondWithError(401, 'OAuth token is missing', null)
+        }
+        if (!headers['Client-ID']) {
+            return this.respondWithError(401, 'Client-Id header required', null)
+        }
+
+        const bucket = this.getRateLimitBucket(accessToken)
+        const injected = this.injectedResponses.find(r => r.endpoint === undefined || r.endpoint === endpointName)
+        if (injected) {
+            if (--injected.times <= 0) {
+                this.injectedResponses = this.injectedResponses.filter(r => r !== injected)
+            }
+            const response = this.respondWithError(injected.status, injected.message, accessToken)
+            if (injected.status === 429) {
+                response.headers = {
+                    ...response.headers,
+                    ratelimitRemaining: 0,
+                    ratelimitReset: Math.ceil(Date.now() / 1000) + 1,
+                }
+            }
+            return response
+        }
+        if (bucket.remaining <= 0) {
+            return this.respondWithError(429, 'Too Many Requests', accessToken)
+        }
+        bucket.remaining--
+
+        const query = endpoint.requestQuery.safeParse(args.query)
+        if (!query.success) {
+            return this.respondWithError(400, `Invalid query parameters: ${query.error.message}`, accessToken)
+        }
+        const body = endpoint.requestBody.safeParse(args.body)
+        if (!body.success) {
+            return this.respondWithError(400, `Invalid request body: ${body.error.message}`, accessToken)
+        }
+
+        const handler = this.handlers[endpointName] as FakeHelixHandler<EndpointName> | undefined
+        if (!handler) {
+            return this.respondWithError(501, `FakeHelixHttpClient has no handler for ${endpointName}`, accessToken)
+        }
+        try {
+            const responseBody = await handler({
+                query: query.data as InferRequestQuery<AllEndpoints[EndpointName]>,
+                body: body.data as InferRequestBody<AllEndpoints[EndpointName]>,
+                accessToken,
+                state: this.state,
+            })
+            return {
+                status: endpoint.successCodes[0] ?? 200,
+                // Round-trip through JSON so callers can't mutate the state through the response
+                body: responseBody === undefined || typeof responseBody === 'string' ? responseBody : JSON.parse(JSON.stringify(responseBody)),
+                headers: this.getRateLimitHeaders(accessToken),
+            }
+        } catch (e) {
+            if (e instanceof FakeHelixError) {
+                return this.respondWithError(e.status, e.message, accessToken)
+            }
+            throw e
+        }
+    }
+
+    private getRateLimitBucket(accessToken: string): RateLimitBucket {
+        const now = Date.now()
+        let bucket = this.rateLimitBuckets.get(accessToken)
+        if (!bucket || bucket.resetAt <= now) {
+            bucket = {
+                remaining: this.rateLimit.limit,
+                resetAt: now + this.rateLimit.windowSeconds * 1000,
+            }
+            this.rateLimitBuckets.set(accessToken, bucket)
+        }
+        return bucket
+    }
+
+    private getRateLimitHeaders(accessToken: string | null): HelixHttpResponse['headers'] {
+        const bucket = accessToken ? this.getRateLimitBucket(accessToken) : null
+        return {
+            ratelimitLimit: this.rateLimit.limit,
+            ratelimitRemaining: bucket?.remaining ?? this.rateLimit.limit,
+            // Twitch sends the reset time as a Unix timestamp in seconds
+            ratelimitReset: Math.ceil((bucket?.resetAt ?? Date.now() + this.rateLimit.windowSeconds * 1000) / 1000),
+        }
+    }
+
+    private respondWithError(status: number, message: string, accessToken: string | null): HelixHttpResponse {
+        return {
+            status,
+            body: createErrorBody(status, message),
+            headers: this.getRateLimitHeaders(accessToken),
+        }
+    }
+}
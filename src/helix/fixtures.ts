@@ -0,0 +1,243 @@
+import { decodeBase64, encodeBase64, stableStringify } from '../utils/data.js'
+import { isFileNotFoundError, joinPath, type FileSystem } from '../utils/fs.js'
+import type { HelixHttpClient, HelixHttpRequestArgs, HelixHttpResponse } from './helix.js'
+
+const BASE_URL = 'https://api.twitch.tv/helix/'
+
+const REDACTED = '[REDACTED]'
+
+export interface HelixFixtureRequest {
+    method: string
+    path: string
+    query?: Record<string, string | string[]>
+    body?: Record<string, unknown>
+}
+
+export interface HelixFixtureResponse {
+    status: number
+    headers: HelixHttpResponse['headers']
+    body?: unknown
+    /** Set when the response body was raw bytes, which are stored as base64 */
+    bodyEncoding?: 'base64'
+}
+
+/**
+ * A recorded request and the responses Twitch returned for it. Request headers are never recorded, and any access token or Client ID found in the request or responses is redacted.
+ */
+export interface HelixFixture {
+    request: HelixFixtureRequest
+    /** Responses in the order they were recorded. Replays serve them in the same order and then keep repeating the last one. */
+    responses: HelixFixtureResponse[]
+}
+
+export interface HelixFixtureStore {
+    /**
+     * Returns the fixture stored under a key, or null if there is none
+     */
+    read(key: string): Promise<HelixFixture | null>
+    write(key: string, fixture: HelixFixture): Promise<void>
+}
+
+/**
+ * Stores each fixture as a JSON file named after its key, so fixtures can be reviewed and committed alongside tests
+ */
+export class FileHelixFixtureStore implements HelixFixtureStore {
+    /**
+     * @param services.fileSystem The file system to read and write fixtures with, usually Node's `fs/promises` module.
+     * @param directory The directory to store fixture files in. It is created if it doesn't exist.
+     */
+    constructor(
+        private readonly services: {
+            fileSystem: FileSystem,
+        },
+        private readonly directory: string,
+    ) {
+
+    }
+
+    async read(key: string): Promise<HelixFixture | null> {
+        let text: string
+        try {
+            text = await this.services.fileSystem.readFile(this.getPath(key), 'utf8')
+        } catch (e) {
+            if (isFileNotFoundError(e)) {
+                return null
+            }
+            throw e
+        }
+        return JSON.parse(text) as HelixFixture
+    }
+
+    async write(key: string, fixture: HelixFixture): Promise<void> {
+        await this.services.fileSystem.mkdir(this.directory, { recursive: true })
+        await this.services.fileSystem.writeFile(this.getPath(key), `${JSON.stringify(fixture, null, 2)}\n`, 'utf8')
+    }
+
+    private getPath(key: string): string {
+        return joinPath(this.directory, `${key}.json`)
+    }
+}
+
+export class HelixFixtureNotFoundError extends Error {
+    constructor(
+        message: string,
+        public readonly key: string,
+    ) {
+        super(message)
+        this.name = 'HelixFixtureNotFoundError'
+    }
+}
+
+/**
+ * `record` sends requests through the wrapped client and saves the responses as fixtures; `replay` serves saved fixtures without making any requests
+ */
+export type HelixRecordReplayMode = 'record' | 'replay'
+
+function getFixtureRequest(args: HelixHttpRequestArgs): HelixFixtureRequest {
+    const request: HelixFixtureRequest = {
+        method: args.method,
+        path: args.url.startsWith(BASE_URL) ? args.url.slice(BASE_URL.length) : args.url,
+    }
+    if (args.query) {
+        // Query values are sent as strings, so numbers and booleans are normalized to match, arrays are sorted since their order doesn't matter, and single-item arrays are sent the same as a single value
+        const query: Record<string, string | string[]> = {}
+        for (const [key, value] of Object.entries(args.query)) {
+            if (value !== undefined) {
+                const values = Array.isArray(value) ? value.map(String).sort() : [String(value)]
+                query[key] = values.length === 1 ? values[0]! : values
+            }
+        }
+        request.query = query
+    }
+    if (args.body) {
+        request.body = args.body
+    }
+    return request
+}
+
+/**
+ * Returns a file-name-safe key identifying a request by its method, path, and normalized query and body
+ */
+async function getFixtureKey(request: HelixFixtureRequest): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(stableStringify(request)))
+    const hash = Array.from(new Uint8Array(digest).slice(0, 8), byte => byte.toString(16).padStart(2, '0')).join('')
+    return `${request.method}-${request.path.replace(/[^a-zA-Z0-9]+/g, '-')}-${hash}`.toLowerCase()
+}
+
+function getSecrets(headers: Record<string, string> | undefined): string[] {
+    const secrets: string[] = []
+    for (const [key, value] of Object.entries(headers ?? {})) {
+        const name = key.toLowerCase()
+        if (name === 'authorization') {
+            secrets.push(value.replace(/^(Bearer|OAuth)\s+/i, ''))
+        } else if (name === 'client-id') {
+            secrets.push(value)
+        }
+    }
+    return secrets.filter(secret => secret.length > 0)
+}
+
+/**
+ * Replaces every occurrence of the secrets in string values, keys included
+ */
+function redact<T>(value: T, secrets: string[]): T {
+    if (secrets.length === 0) {
+        return value
+    }
+    const redactString = (str: string) => secrets.reduce((result, secret) => result.split(secret).join(REDACTED), str)
+    const visit = (v: unknown): unknown => {
+        if (typeof v === 'string') {
+            return redactString(v)
+        } else if (Array.isArray(v)) {
+            return v.map(visit)
+        } else if (v && typeof v === 'object' && !(v instanceof Uint8Array)) {
+            return Object.fromEntries(Object.entries(v).map(([key, child]) => [redactString(key), visit(child)]))
+        }
+        return v
+    }
+    return visit(value) as T
+}
+
+function toFixtureResponse(response: HelixHttpResponse): HelixFixtureResponse {
+    const fixtureResponse: HelixFixtureResponse = {
+        status: response.status,
+        headers: response.headers,
+    }
+    if (response.body instanceof Uint8Array) {
+        fixtureResponse.body = encodeBase64(response.body)
+        fixtureResponse.bodyEncoding = 'base64'
+    } else if (response.body !== undefined) {
+        fixtureResponse.body = response.body
+    }
+    return fixtureResponse
+}
+
+function fromFixtureResponse(fixtureResponse: HelixFixtureResponse): HelixHttpResponse {
+    return {
+        status: fixtureResponse.status,
+        headers: fixtureResponse.headers,
+        body: fixtureResponse.bodyEncoding === 'base64' && typeof fixtureResponse.body === 'string'
+            ? decodeBase64(fixtureResponse.body)
+            : fixtureResponse.body,
+    }
+}
+
+/**
+ * Wraps another {@link HelixHttpClient} to record real request/response pairs as redacted fixtures, or to replay those fixtures deterministically without touching the network.
+ */
+export class RecordReplayHelixHttpClient implements HelixHttpClient {
+    // Fixtures recorded by this client, so that repeated requests append to the fixture instead of overwriting it
+    private readonly recordedFixtures = new Map<string, HelixFixture>()
+    private readonly replayIndices = new Map<string, number>()
+
+    /**
+     * @param services.httpClient The client to send requests with when recording. Not used when replaying.
+     * @param services.fixtureStore Where fixtures are saved to and loaded from.
+     * @param mode Whether to record new fixtures or replay existing ones.
+     */
+    constructor(
+        private readonly services: {
+            httpClient: HelixHttpClient,
+            fixtureStore: HelixFixtureStore,
+        },
+        private readonly mode: HelixRecordReplayMode,
+    ) {
+
+    }
+
+    async fetch(args: HelixHttpRequestArgs): Promise<HelixHttpResponse> {
+        const request = getFixtureRequest(args)
+        const key = await getFixtureKey(request)
+        if (this.mode === 'record') {
+            return this.record(key, request, args)
+        }
+        return this.replay(key, args)
+    }
+
+    private async record(key: string, request: HelixFixtureRequest, args: HelixHttpRequestArgs): Promise<HelixHttpResponse> {
+        const response = await this.services.httpClient.fetch(args)
+        const secrets = getSecrets(args.headers)
+        let fixture = this.recordedFixtures.get(key)
+        if (!fixture) {
+            fixture = {
+                request: redact(request, secrets),
+                responses: [],
+            }
+            this.recordedFixtures.set(key, fixture)
+        }
+        fixture.responses.push(redact(toFixtureResponse(response), secrets))
+        await this.services.fixtureStore.write(key, fixture)
+        return response
+    }
+
+    private async replay(key: string, args: HelixHttpRequestArgs): Promise<HelixHttpResponse> {
+        args.signal?.throwIfAborted()
+        const fixture = await this.services.fixtureStore.read(key)
+        if (!fixture || fixture.responses.length === 0) {
+            throw new HelixFixtureNotFoundError(`No fixture recorded for ${args.method} ${args.url} (${key})`, key)
+        }
+        const index = this.replayIndices.get(key) ?? 0
+        this.replayIndices.set(key, index + 1)
+        return fromFixtureResponse(fixture.responses[Math.min(index, fixture.responses.length - 1)]!)
+    }
+}
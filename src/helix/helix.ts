@@ -1,12 +1,16 @@
-import type { AppAccessTokenProvider, UserAccessTokenProvider } from '../auth/auth.js'
+import { assertTokenClientID, type AppAccessTokenProvider, type AuthContext, type UserAccessTokenProvider } from '../auth/auth.js'
 import type { UserAccessTokenScopeSet } from '../auth/types.js'
+import * as z from 'zod'
+import { isAbortError } from '../utils/abort.js'
 import { wait } from '../utils/async.js'
+import { FifoKeyValueCache, type KeyValueCache } from '../utils/cache.js'
+import { safeJsonParse } from '../utils/data.js'
 import type { Logger } from '../utils/logger.js'
-import { ALL_ENDPOINTS, type InferRequestQuery, type InferRequestBody, type InferResponseBody } from './types.js'
+import { ALL_ENDPOINTS, type EndpointPagination, type EndpointRateLimit, type InferAuth, type InferPagination, type InferRequestQuery, type InferRequestBody, type InferResponseBody, HelixErrorCode } from './types.js'
 
-const BASE_URL = 'https://api.twitch.tv/helix/'
+export { HelixErrorCode }
 
-const MAX_RETRY_ATTEMPTS = 5
+const BASE_URL = 'https://api.twitch.tv/helix/'
 
 type AllEndpoints = typeof ALL_ENDPOINTS
 type EndpointName = keyof AllEndpoints
@@ -15,42 +19,124 @@ type FunctionNameFromEndpointName<N extends EndpointName> = N extends `${infer F
   ? `${Lowercase<FirstLetter>}${Rest}`
   : never
 
-type EndpointCallOptions = {
-    signal?: AbortSignal | undefined
-} & ({
+type UserTokenOptions = {
     userAccessToken: UserAccessTokenProvider
     appAccessToken?: AppAccessTokenProvider | undefined
-} | {
+}
+
+type AppTokenOptions = {
     userAccessToken?: UserAccessTokenProvider | undefined
     appAccessToken: AppAccessTokenProvider
-})
+}
+
+/**
+ * Requires the token types an endpoint accepts, based on the auth flags in its definition
+ */
+type EndpointTokenOptions<A> = A extends { userAccessToken: true, appAccessToken: true }
+    ? UserTokenOptions | AppTokenOptions
+    : A extends { userAccessToken: true }
+        ? UserTokenOptions
+        : A extends { appAccessToken: true }
+            ? AppTokenOptions
+            : {}
+
+/**
+ * Call options with both token types optional, as seen at runtime
+ */
+type AnyEndpointCallOptions = Omit<AuthContext, 'clientID'> & {
+    clientID?: string | undefined
+    signal?: AbortSignal | undefined
+}
+
+/**
+ * The auth context to make a call with, plus call-specific options. The Client ID defaults to the one of the token provider being used. For a specific endpoint, only the token types it accepts satisfy the type; by default, either token type does.
+ */
+export type EndpointCallOptions<N extends EndpointName = EndpointName> = Omit<AuthContext, 'clientID' | 'userAccessToken' | 'appAccessToken'> & {
+    clientID?: string | undefined
+    signal?: AbortSignal | undefined
+} & EndpointTokenOptions<InferAuth<AllEndpoints[N]>>
+
+type EndpointParams<N extends EndpointName> = (InferRequestQuery<AllEndpoints[N]> extends undefined ? { query?: undefined } : { query: InferRequestQuery<AllEndpoints[N]> }) & (InferRequestBody<AllEndpoints[N]> extends undefined ? { body?: undefined } : { body: InferRequestBody<AllEndpoints[N]> }) & EndpointCallOptions<N>
 
-type EndpointFunction<N extends EndpointName> = (params: (InferRequestQuery<AllEndpoints[N]> extends undefined ? { query?: undefined } : { query: InferRequestQuery<AllEndpoints[N]> }) & (InferRequestBody<AllEndpoints[N]> extends undefined ? { body?: undefined } : { body: InferRequestBody<AllEndpoints[N]> }) & EndpointCallOptions) => Promise<InferResponseBody<AllEndpoints[N]>>
+type EndpointFunction<N extends EndpointName> = (params: EndpointParams<N>) => Promise<InferResponseBody<AllEndpoints[N]>>
 
 type AllEndpointFunctions = {
   [N in EndpointName as FunctionNameFromEndpointName<N>]: EndpointFunction<N>
 }
 
-export interface HelixClient extends AllEndpointFunctions {
+type PaginatedEndpointName = {
+    [N in EndpointName]: InferPagination<AllEndpoints[N]> extends EndpointPagination ? N : never
+}[EndpointName]
+
+/**
+ * The type of a single item in a page of results from a paginated endpoint.
+ */
+export type PaginatedItem<N extends PaginatedEndpointName> = InferResponseBody<AllEndpoints[N]> extends { data: (infer T)[] }
+    ? T
+    : InferResponseBody<AllEndpoints[N]> extends { data: { segments: (infer T)[] } }
+        ? T
+        : never
+
+type PaginateOptions = {
+    /**
+     * The maximum number of items to yield before stopping. No further pages are requested once this many items have been received.
+     */
+    maxItems?: number | undefined
+    /**
+     * Whether to page forwards using `after` cursors or backwards using `before` cursors. Backward pagination is only supported by endpoints that accept a `before` cursor. Defaults to forward.
+     */
+    direction?: 'forward' | 'backward' | undefined
+}
+
+/**
+ * Lazily fetches pages from a paginated endpoint, following the response cursor until there are no more results.
+ */
+export interface HelixPaginator<N extends PaginatedEndpointName> extends AsyncIterable<PaginatedItem<N>> {
+    /**
+     * Iterates over each page's full response body instead of individual items.
+     */
+    pages(): AsyncGenerator<InferResponseBody<AllEndpoints[N]>>
+    /**
+     * Fetches every remaining page and collects the items into an array.
+     */
+    toArray(): Promise<PaginatedItem<N>[]>
+}
+
+type PaginateFunction<N extends PaginatedEndpointName> = (params: EndpointParams<N> & PaginateOptions) => HelixPaginator<N>
+
+type AllPaginateFunctions = {
+  [N in PaginatedEndpointName as `paginate${N}`]: PaginateFunction<N>
+}
+
+export interface HelixClient extends AllEndpointFunctions, AllPaginateFunctions {
 
 }
 
-interface HelixHttpRequestArgs {
+export interface HelixHttpRequestArgs {
     method: string
     url: string
     headers?: Record<string, string> | undefined
     query?: Record<string, string | string[]> | undefined
     body?: Record<string, unknown> | undefined
+    /**
+     * How a successful response body should be read. Error responses are always read as JSON. Defaults to JSON.
+     */
+    responseType?: HelixResponseType | undefined
     signal?: AbortSignal | undefined
 }
 
+export type HelixResponseType = 'json' | 'text' | 'bytes'
+
 export interface HelixHttpClient {
     fetch: (args: HelixHttpRequestArgs) => Promise<HelixHttpResponse>
 }
 
-interface HelixHttpResponse {
+export interface HelixHttpResponse {
     status: number
-    body?: Record<string, unknown>
+    /**
+     * The response body, read according to the requested response type, or undefined if the response had no content. Once it has passed through the validation middleware, this is the body parsed by the endpoint's response schema.
+     */
+    body?: unknown
     headers: {
         ratelimitLimit: number
         ratelimitRemaining: number
@@ -74,36 +160,140 @@ export interface HelixRateLimitState {
     consecutiveHits: number
 }
 
+/**
+ * Identifies the rate limit buckets that apply to a single Helix request.
+ */
+export interface HelixRateLimitContext {
+    /**
+     * The name of the endpoint being called
+     */
+    endpoint: string
+    /**
+     * Identifies the token the request is made with. Twitch tracks rate limits per user/client pair for user access tokens and per client for app access tokens.
+     */
+    tokenBucket: string
+    /**
+     * The endpoint-specific rate limit that applies on top of the token's rate limit, if any
+     */
+    endpointRateLimit?: EndpointRateLimit | undefined
+}
+
+export interface HelixRateLimitThrottleEvent {
+    /**
+     * The key of the bucket that caused the throttling
+     */
+    bucket: string
+    /**
+     * The name of the endpoint whose request is being delayed
+     */
+    endpoint: string
+    /**
+     * How long the request will be delayed, in milliseconds
+     */
+    waitMs: number
+    /**
+     * Whether the request was delayed ahead of time because the bucket is known to be exhausted, or after Twitch responded with a 429
+     */
+    reason: 'exhausted' | 'rate_limit_hit'
+    state: HelixRateLimitState
+}
+
 export interface HelixRateLimitManager {
     /**
-     * Get the current rate limit state
+     * Get the current rate limit state of a bucket, or null if no requests have been made against it yet
      */
-    getRateLimitState(): HelixRateLimitState
-    
+    getRateLimitState(bucket: string): HelixRateLimitState | null
+
     /**
-     * Called when a 429 response is received. Returns the number of milliseconds to wait before retrying.
+     * Called before each request attempt. Returns the number of milliseconds to wait before checking again, or 0 if the request can be made now.
      */
-    onRateLimitHit(): number
+    onBeforeRequest(context: HelixRateLimitContext): number
+
+    /**
+     * Called when a 429 response is received. Records when the bucket may be used again, so {@link onBeforeRequest} delays the next request, and returns the number of milliseconds until then.
+     */
+    onRateLimitHit(context: HelixRateLimitContext): number
 
     /**
      * Update the rate limit state based on response headers
      */
-    onRequestAttempt(headers: HelixHttpResponse['headers']): void
+    onRequestAttempt(context: HelixRateLimitContext, headers: HelixHttpResponse['headers']): void
     
     /**
      * Reset the consecutive hit counter (called on successful request)
      */
-    onSuccessfulRequest(): void
+    onSuccessfulRequest(context: HelixRateLimitContext): void
+}
+
+/**
+ * Returns the error code for a failed HTTP status
+ */
+export function getHelixErrorCode(status: number): HelixErrorCode {
+    switch (status) {
+        case 400: return HelixErrorCode.BAD_REQUEST
+        case 401: return HelixErrorCode.UNAUTHORIZED
+        case 403: return HelixErrorCode.FORBIDDEN
+        case 404: return HelixErrorCode.NOT_FOUND
+        case 409: return HelixErrorCode.CONFLICT
+        case 422: return HelixErrorCode.UNPROCESSABLE_ENTITY
+        case 429: return HelixErrorCode.RATE_LIMITED
+    }
+    return status >= 500 ? HelixErrorCode.SERVER_ERROR : HelixErrorCode.UNEXPECTED_STATUS
+}
+
+const helixErrorBodySchema = z.object({
+    error: z.string(),
+    status: z.number(),
+    message: z.string(),
+})
+
+/**
+ * The error body Twitch returns alongside failed requests
+ */
+export type HelixErrorBody = z.infer<typeof helixErrorBodySchema>
+
+/**
+ * Parses a Twitch error body, or returns null if the body is missing or not in the expected shape
+ */
+export function parseHelixErrorBody(body: unknown): HelixErrorBody | null {
+    const result = helixErrorBodySchema.safeParse(body)
+    return result.success ? result.data : null
+}
+
+export interface HelixApiErrorDetails {
+    /**
+     * Defaults to the code for the status
+     */
+    code?: HelixErrorCode | undefined
+    errorBody?: HelixErrorBody | null | undefined
+    response?: HelixHttpResponse | null | undefined
 }
 
 export class HelixApiError extends Error {
+    /**
+     * A stable code identifying the kind of failure: what the status means for the endpoint if its definition maps it, else the code for the status
+     */
+    public readonly code: HelixErrorCode
+    /**
+     * The error body returned by Twitch, or null if the error did not come from a Twitch response or the body could not be parsed
+     */
+    public readonly errorBody: HelixErrorBody | null
+    /**
+     * The raw response the error was created from, or null if the request failed before a response was received
+     */
+    public readonly response: HelixHttpResponse | null
+
     constructor(
         message: string,
         public readonly status: number,
         public readonly endpoint: string,
+        details: HelixApiErrorDetails = {},
     ) {
         super(message)
         this.name = 'HelixApiError'
+        this.code = details.code ?? getHelixErrorCode(status)
+        this.errorBody = details.errorBody ?? null
+        this.response = details.response ?? null
     }
 }
 
@@ -113,8 +303,9 @@ export class HelixApiRateLimitError extends HelixApiError {
         status: number,
         endpoint: string,
         public readonly rateLimitInfo: HelixRateLimitInfo,
+        details: HelixApiErrorDetails = {},
     ) {
-        super(message, status, endpoint)
+        super(message, status, endpoint, { code: HelixErrorCode.RATE_LIMITED, ...details })
         this.name = 'HelixApiRateLimitError'
     }
 }
@@ -126,68 +317,156 @@ export class HelixInsufficientScopesError extends HelixApiError {
         endpoint: string,
         public readonly requiredScopes: UserAccessTokenScopeSet,
     ) {
-        super(message, status, endpoint)
+        super(message, status, endpoint, { code: HelixErrorCode.INSUFFICIENT_SCOPES })
         this.name = 'HelixInsufficientScopesError'
     }
 }
 
 /**
- * Default rate limit manager implementation that tracks state and implements exponential backoff
+ * Thrown by {@link DefaultHelixHttpClient} when a request could not be sent or no response was received, e.g. because of a DNS failure or a dropped connection. The error thrown by `fetch` is kept as the `cause`.
+ */
+export class HelixNetworkError extends Error {
+    constructor(message: string, cause: unknown) {
+        super(message, { cause })
+        this.name = 'HelixNetworkError'
+    }
+}
+
+/**
+ * Default rate limit manager implementation that tracks a bucket per token and per endpoint-specific limit, waits for the reset time when a bucket is exhausted, and implements exponential backoff
  */
 export class DefaultHelixRateLimitManager implements HelixRateLimitManager {
-    private state: HelixRateLimitState
+    private buckets = new Map<string, HelixRateLimitState>()
     private warningCooldownTimeoutID: ReturnType<typeof setTimeout> | null = null
     
+    /**
+     * @param onWarning Called when a bucket is running low or a rate limit has been hit.
+     * @param onThrottle Called whenever a request is delayed because of a rate limit.
+     */
     constructor(
-        private readonly onWarning?: (state: HelixRateLimitState, reason: string) => void
+        private readonly onWarning?: (state: HelixRateLimitState, reason: string) => void,
+        private readonly onThrottle?: (event: HelixRateLimitThrottleEvent) => void,
     ) {
-        this.state = {
-            limit: 0,
-            remaining: 0,
-            resetAt: new Date(),
-            consecutiveHits: 0,
-        }
+
     }
     
-    getRateLimitState(): HelixRateLimitState {
-        return { ...this.state }
+    getRateLimitState(bucket: string): HelixRateLimitState | null {
+        const state = this.buckets.get(bucket)
+        return state ? { ...state } : null
+    }
+
+    onBeforeRequest(context: HelixRateLimitContext): number {
+        const now = Date.now()
+        const tokenState = this.getBucket(context.tokenBucket)
+        if (tokenState.resetAt.getTime() <= now) {
+            // The bucket has refilled since the last response we saw
+            tokenState.remaining = tokenState.limit
+        }
+        const endpointBucket = this.getEndpointBucketKey(context)
+        const endpointState = endpointBucket ? this.getBucket(endpointBucket) : null
+        if (endpointState && context.endpointRateLimit && endpointState.resetAt.getTime() <= now) {
+            // Start a new window for the endpoint-specific limit
+            endpointState.limit = context.endpointRateLimit.limit ?? Infinity
+            endpointState.remaining = endpointState.limit
+            endpointState.resetAt = new Date(now + context.endpointRateLimit.windowSeconds * 1000)
+        }
+
+        // A limit of 0 means no response has been seen for this bucket yet, so there is nothing to wait for
+        if (tokenState.limit > 0 && tokenState.remaining <= 0) {
+            const waitMs = tokenState.resetAt.getTime() - now
+            this.onThrottle?.({ bucket: context.tokenBucket, endpoint: context.endpoint, waitMs, reason: 'exhausted', state: { ...tokenState } })
+            return waitMs
+        }
+        if (endpointBucket && endpointState && endpointState.remaining <= 0) {
+            const waitMs = endpointState.resetAt.getTime() - now
+            this.onThrottle?.({ bucket: endpointBucket, endpoint: context.endpoint, waitMs, reason: 'exhausted', state: { ...endpointState } })
+            return waitMs
+        }
+
+        // Reserve a point in each bucket so concurrent requests see an accurate count before the response headers arrive
+        if (tokenState.limit > 0) {
+            tokenState.remaining--
+        }
+        if (endpointState) {
+            endpointState.remaining--
+        }
+        return 0
     }
     
-    onRateLimitHit(): number {
-        this.state.consecutiveHits++
+    onRateLimitHit(context: HelixRateLimitContext): number {
+        const tokenState = this.getBucket(context.tokenBucket)
+        const endpointBucket = this.getEndpointBucketKey(context)
+
+        // If the token still has points left, the 429 must have come from the endpoint-specific limit
+        const bucket = endpointBucket && tokenState.remaining > 0 ? endpointBucket : context.tokenBucket
+        const state = this.getBucket(bucket)
+        state.consecutiveHits++
+        state.remaining = 0
+        if (bucket === endpointBucket && context.endpointRateLimit) {
+            const windowResetAt = Date.now() + context.endpointRateLimit.windowSeconds * 1000
+            if (state.resetAt.getTime() < windowResetAt) {
+                state.resetAt = new Date(windowResetAt)
+            }
+        }
         
         // Raise warning on initial hit
-        if (this.state.consecutiveHits === 1) {
+        if (state.consecutiveHits === 1) {
             clearTimeout(this.warningCooldownTimeoutID ?? undefined)
-            this.issueWarning(`Twitch Helix API rate limit hit. Consider reducing request frequency to avoid hitting the rate limit.`)
+            this.issueWarning(state, `Twitch Helix API rate limit hit for ${bucket}. Consider reducing request frequency to avoid hitting the rate limit.`)
         }
         
         // Calculate wait time with exponential backoff
-        const resetTime = this.state.resetAt.getTime() - Date.now()
-        const backoffMultiplier = Math.pow(2, Math.min(this.state.consecutiveHits - 1, 5))
+        const resetTime = state.resetAt.getTime() - Date.now()
+        const backoffMultiplier = Math.pow(2, Math.min(state.consecutiveHits - 1, 5))
         const backoffDelay = Math.min(1000 * backoffMultiplier, 30000) // Cap at 30 seconds
         
-        return Math.max(resetTime, backoffDelay)
+        const waitMs = Math.max(resetTime, backoffDelay)
+        state.resetAt = new Date(Date.now() + waitMs)
+        this.onThrottle?.({ bucket, endpoint: context.endpoint, waitMs, reason: 'rate_limit_hit', state: { ...state } })
+        return waitMs
     }
     
-    onRequestAttempt(headers: HelixHttpResponse['headers']): void {
-        this.state.limit = headers.ratelimitLimit
-        this.state.remaining = headers.ratelimitRemaining
-        this.state.resetAt = new Date(headers.ratelimitReset * 1000)
+    onRequestAttempt(context: HelixRateLimitContext, headers: HelixHttpResponse['headers']): void {
+        const state = this.getBucket(context.tokenBucket)
+        state.limit = headers.ratelimitLimit
+        state.remaining = headers.ratelimitRemaining
+        state.resetAt = new Date(headers.ratelimitReset * 1000)
         
         // Raise warning if remaining is low (less than 10% of limit)
-        if (this.state.remaining < this.state.limit * 0.1) {
-            this.issueWarning(`Twitch Helix API rate limit is low: ${this.state.remaining} out of ${this.state.limit} request points remaining until ${this.state.resetAt.toISOString()}. Consider reducing request frequency to avoid hitting the rate limit.`)
+        if (state.remaining < state.limit * 0.1) {
+            this.issueWarning(state, `Twitch Helix API rate limit is low for ${context.tokenBucket}: ${state.remaining} out of ${state.limit} request points remaining until ${state.resetAt.toISOString()}. Consider reducing request frequency to avoid hitting the rate limit.`)
         }
     }
     
-    onSuccessfulRequest(): void {
-        this.state.consecutiveHits = 0
+    onSuccessfulRequest(context: HelixRateLimitContext): void {
+        this.getBucket(context.tokenBucket).consecutiveHits = 0
+        const endpointBucket = this.getEndpointBucketKey(context)
+        if (endpointBucket) {
+            this.getBucket(endpointBucket).consecutiveHits = 0
+        }
+    }
+
+    private getBucket(bucket: string): HelixRateLimitState {
+        let state = this.buckets.get(bucket)
+        if (!state) {
+            state = {
+                limit: 0,
+                remaining: 0,
+                resetAt: new Date(),
+                consecutiveHits: 0,
+            }
+            this.buckets.set(bucket, state)
+        }
+        return state
     }
 
-    private issueWarning(reason: string): void {
+    private getEndpointBucketKey(context: HelixRateLimitContext): string | null {
+        return context.endpointRateLimit ? `${context.endpoint}:${context.tokenBucket}` : null
+    }
+
+    private issueWarning(state: HelixRateLimitState, reason: string): void {
         if (this.onWarning) {
-            this.onWarning(this.state, reason)
+            this.onWarning({ ...state }, reason)
             this.warningCooldownTimeoutID = setTimeout(() => {
                 this.warningCooldownTimeoutID = null
             }, 60000) // 1 minute cooldown
@@ -195,10 +474,273 @@ export class DefaultHelixRateLimitManager implements HelixRateLimitManager {
     }
 }
 
+export interface HelixRetryContext {
+    /**
+     * The name of the endpoint whose request failed
+     */
+    endpoint: EndpointName
+    /**
+     * Whether repeating the request is safe, i.e. a retry can't cause a duplicate chat message, clip, etc.
+     */
+    idempotent: boolean
+    /**
+     * How many times the request has already been retried
+     */
+    retryCount: number
+    /**
+     * How long ago the first attempt was made, in milliseconds
+     */
+    elapsedMs: number
+    /**
+     * The failed response, or undefined if the request threw instead
+     */
+    response?: HelixHttpResponse | undefined
+    /**
+     * The error the request threw, e.g. a network error, or undefined if a response was received
+     */
+    error?: unknown
+}
+
+export interface HelixRetryEvent {
+    endpoint: EndpointName
+    /**
+     * The number of the retry about to be made, starting at 1
+     */
+    retryCount: number
+    /**
+     * How long the retry will be delayed, in milliseconds
+     */
+    delayMs: number
+    /**
+     * The status of the failed response, or null if the request threw
+     */
+    status: number | null
+    /**
+     * The error the request threw, or null if a response was received
+     */
+    error: unknown
+}
+
+export interface HelixRetryPolicy {
+    /**
+     * Decide whether to retry a failed request. Returns how long to wait before retrying, in milliseconds, or null to give up and surface the failure.
+     */
+    getRetryDelay(context: HelixRetryContext): number | null
+}
+
+export interface HelixRetryPolicyOptions {
+    /**
+     * The maximum number of retries per request. Defaults to 5.
+     */
+    maxRetries?: number
+    /**
+     * The delay before the first retry, doubled for each retry after that. Defaults to 500ms.
+     */
+    baseDelayMs?: number
+    /**
+     * The cap on the delay between retries. Defaults to 10 seconds.
+     */
+    maxDelayMs?: number
+    /**
+     * Give up once retrying would take longer than this since the first attempt. Defaults to 60 seconds.
+     */
+    totalBudgetMs?: number
+    /**
+     * The response statuses to retry. Defaults to 429, 500, 502, 503 and 504.
+     */
+    retryableStatuses?: number[]
+    /**
+     * Whether to retry requests that threw, or a function that decides per error. By default, network errors ({@link HelixNetworkError}) are retried.
+     */
+    retryErrors?: boolean | ((error: unknown) => boolean)
+    /**
+     * Whether to retry non-idempotent requests after failures where Twitch may already have acted on them, such as a 5xx response or a network error. 429 responses are always safe to retry since Twitch rejected the request. Defaults to false.
+     */
+    retryNonIdempotent?: boolean
+}
+
+function isNetworkError(error: unknown): boolean {
+    return error instanceof HelixNetworkError
+}
+
+/**
+ * Default retry policy implementation with exponential backoff and full jitter, bounded by a retry count and a total time budget
+ */
+export class DefaultHelixRetryPolicy implements HelixRetryPolicy {
+    private readonly options: Required<HelixRetryPolicyOptions>
+
+    /**
+     * @param options Which failures to retry and how long to wait between retries.
+     * @param onRetry Called every time a request is about to be retried.
+     */
+    constructor(
+        options: HelixRetryPolicyOptions = {},
+        private readonly onRetry?: (event: HelixRetryEvent) => void,
+    ) {
+        this.options = {
+            maxRetries: 5,
+            baseDelayMs: 500,
+            maxDelayMs: 10000,
+            totalBudgetMs: 60000,
+            retryableStatuses: [429, 500, 502, 503, 504],
+            retryErrors: isNetworkError,
+            retryNonIdempotent: false,
+            ...options,
+        }
+    }
+
+    getRetryDelay(context: HelixRetryContext): number | null {
+        const { maxRetries, baseDelayMs, maxDelayMs, totalBudgetMs, retryableStatuses, retryErrors, retryNonIdempotent } = this.options
+        if (context.retryCount >= maxRetries) {
+            return null
+        }
+
+        const status = context.response?.status ?? null
+        if (status !== null) {
+            if (!retryableStatuses.includes(status)) {
+                return null
+            }
+        } else if (typeof retryErrors === 'function' ? !retryErrors(context.error) : !retryErrors) {
+            return null
+        }
+        if (!context.idempotent && !retryNonIdempotent && status !== 429) {
+            return null
+        }
+
+        // The rate limit manager holds back the retry until the bucket resets after a 429, so no backoff is needed on top
+        const delayMs = status === 429 ? 0 : Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * Math.pow(2, context.retryCount)))
+        if (context.elapsedMs + delayMs > totalBudgetMs) {
+            return null
+        }
+        this.onRetry?.({
+            endpoint: context.endpoint,
+            retryCount: context.retryCount + 1,
+            delayMs,
+            status,
+            error: context.error ?? null,
+        })
+        return delayMs
+    }
+}
+
+export interface HelixResponseCacheEntry {
+    endpoint: string
+    query: Record<string, unknown> | undefined
+    response: HelixHttpResponse
+    expiresAt: number
+}
+
+export interface HelixResponseCache {
+    /**
+     * Get a cached response, or undefined if the endpoint is not cached or the entry is missing or expired
+     */
+    get(endpoint: EndpointName, tokenIdentity: string, query: Record<string, unknown> | undefined): HelixHttpResponse | undefined
+
+    /**
+     * Store a successful response if caching is enabled for the endpoint
+     */
+    set(endpoint: EndpointName, tokenIdentity: string, query: Record<string, unknown> | undefined, response: HelixHttpResponse): void
+
+    /**
+     * Remove cached responses. With no arguments, clears the entire cache. With an endpoint, removes that endpoint's entries. With a query, only removes entries whose query includes every given parameter value, regardless of which token made the request.
+     */
+    invalidate(endpoint?: EndpointName, query?: Record<string, unknown>): void
+}
+
+function normalizeQueryValue(value: unknown): unknown {
+    return Array.isArray(value) ? value.map(String).sort() : value
+}
+
+/**
+ * Serializes a query with sorted keys and array values so that equivalent queries produce the same cache key
+ */
+function normalizeQuery(query: Record<string, unknown> | undefined): string {
+    if (!query) {
+        return ''
+    }
+    const entries = Object.entries(query)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [key, normalizeQueryValue(value)] as const)
+        .sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0)
+    return JSON.stringify(entries)
+}
+
+function queryIncludes(query: Record<string, unknown> | undefined, subset: Record<string, unknown>): boolean {
+    return Object.entries(subset).every(([key, value]) => {
+        const actual = query?.[key]
+        if (Array.isArray(actual)) {
+            return Array.isArray(value) ? value.every(v => actual.includes(v)) : actual.includes(value)
+        }
+        return actual === value
+    })
+}
+
+/**
+ * Default response cache implementation that caches the endpoints it is configured for with a fixed TTL each
+ */
+export class DefaultHelixResponseCache implements HelixResponseCache {
+    /**
+     * @param endpoints The endpoints to cache and how long their responses stay fresh, in milliseconds.
+     * @param store The backing store for cached responses. Defaults to an in-memory FIFO cache of 1000 entries.
+     */
+    constructor(
+        private readonly endpoints: { [N in EndpointName]?: { ttlMs: number } },
+        private readonly store: KeyValueCache<string, HelixResponseCacheEntry> = new FifoKeyValueCache(1000),
+    ) {
+
+    }
+
+    get(endpoint: EndpointName, tokenIdentity: string, query: Record<string, unknown> | undefined): HelixHttpResponse | undefined {
+        if (!this.endpoints[endpoint]) {
+            return undefined
+        }
+        const key = this.getKey(endpoint, tokenIdentity, query)
+        const entry = this.store.get(key)
+        if (!entry) {
+            return undefined
+        }
+        if (Date.now() >= entry.expiresAt) {
+            this.store.delete(key)
+            return undefined
+        }
+        // Callers may modify the response they get, which must not leak into later hits
+        return structuredClone(entry.response)
+    }
+
+    set(endpoint: EndpointName, tokenIdentity: string, query: Record<string, unknown> | undefined, response: HelixHttpResponse): void {
+        const config = this.endpoints[endpoint]
+        if (!config) {
+            return
+        }
+        this.store.set(this.getKey(endpoint, tokenIdentity, query), {
+            endpoint,
+            query,
+            response: structuredClone(response),
+            expiresAt: Date.now() + config.ttlMs,
+        })
+    }
+
+    invalidate(endpoint?: EndpointName, query?: Record<string, unknown>): void {
+        if (!endpoint) {
+            this.store.clear()
+            return
+        }
+        for (const [key, entry] of this.store.entries()) {
+            if (entry.endpoint === endpoint && (!query || queryIncludes(entry.query, query))) {
+                this.store.delete(key)
+            }
+        }
+    }
+
+    private getKey(endpoint: EndpointName, tokenIdentity: string, query: Record<string, unknown> | undefined): string {
+        return `${endpoint}:${tokenIdentity}:${normalizeQuery(query)}`
+    }
+}
+
 export class DefaultHelixHttpClient implements HelixHttpClient {
 
         async fetch(args: HelixHttpRequestArgs): Promise<HelixHttpResponse> {
-            const { method, url, headers, query, body, signal } = args
+            const { method, url, headers, query, body, responseType, signal } = args
             const urlObj = new URL(url)
             if (query) {
                 for (const [key, value] of Object.entries(query)) {
@@ -211,18 +753,38 @@ export class DefaultHelixHttpClient implements HelixHttpClient {
                     }
                 }
             }
-            const response = await fetch(urlObj.toString(), {
-                method,
-                headers: {
-                    ...(body ? {
-                        'Content-Type': 'application/json',
-                    } : {}),
-                    ...headers,
-                },
-                body: body ? JSON.stringify(body) : null,
-                signal: signal ?? null,
-            })
-            const responseBody = await response.json().catch(() => ({})) as Record<string, unknown>
+            let response: Response
+            try {
+                response = await fetch(urlObj.toString(), {
+                    method,
+                    headers: {
+                        ...(body ? {
+                            'Content-Type': 'application/json',
+                        } : {}),
+                        ...headers,
+                    },
+                    body: body ? JSON.stringify(body) : null,
+                    signal: signal ?? null,
+                })
+            } catch (e) {
+                // Only fetch's own failures are network errors; aborts pass through as they are
+                if (isAbortError(e) || !(e instanceof TypeError)) {
+                    throw e
+                }
+                throw new HelixNetworkError(`Request to ${urlObj.origin}${urlObj.pathname} failed: ${e.message}`, e)
+            }
+            let responseBody: HelixHttpResponse['body'] = undefined
+            if (response.ok && responseType === 'bytes') {
+                const bytes = new Uint8Array(await response.arrayBuffer())
+                responseBody = bytes.byteLength > 0 ? bytes : undefined
+            } else {
+                const text = await response.text()
+                if (response.ok && responseType === 'text') {
+                    responseBody = text || undefined
+                } else if (text) {
+                    responseBody = safeJsonParse(text) as Record<string, unknown> | undefined
+                }
+            }
             
             // Parse rate limit headers
             const limitHeader = response.headers.get('Ratelimit-Limit')
@@ -266,161 +828,483 @@ function validateScopeSet(scopeSet: UserAccessTokenScopeSet, tokenScopes: string
     }
 }
 
+const tokenProviderIDs = new WeakMap<UserAccessTokenProvider | AppAccessTokenProvider, number>()
+let nextTokenProviderID = 1
+
+/**
+ * Returns the key of the rate limit bucket for a token. Twitch tracks user access token limits per user/client pair and app access token limits per client. Tokens whose user ID is not known yet are keyed by their provider instead.
+ */
+async function getTokenBucketKey(clientID: string | undefined, userAccessToken: UserAccessTokenProvider | null, appAccessToken: AppAccessTokenProvider | null): Promise<string> {
+    if (userAccessToken) {
+        const { userID } = await userAccessToken.getAccessToken()
+        const tokenClientID = clientID ?? userAccessToken.getClientID()
+        if (userID) {
+            return `user:${tokenClientID}:${userID}`
+        }
+        let providerID = tokenProviderIDs.get(userAccessToken)
+        if (!providerID) {
+            providerID = nextTokenProviderID++
+            tokenProviderIDs.set(userAccessToken, providerID)
+        }
+        return `user:${tokenClientID}:provider-${providerID}`
+    } else if (appAccessToken) {
+        return `app:${clientID ?? appAccessToken.getClientID()}`
+    }
+    return 'anonymous'
+}
+
+function getPaginatedItems(responseBody: unknown): unknown[] {
+    const data = typeof responseBody === 'object' && responseBody !== null && 'data' in responseBody ? responseBody.data : undefined
+    if (Array.isArray(data)) {
+        return data
+    } else if (typeof data === 'object' && data !== null && 'segments' in data && Array.isArray(data.segments)) {
+        // Stream schedules nest their paginated segments inside a single data object
+        return data.segments
+    }
+    return []
+}
+
+function getPaginationCursor(responseBody: unknown): string | undefined {
+    const pagination = typeof responseBody === 'object' && responseBody !== null && 'pagination' in responseBody ? responseBody.pagination : undefined
+    if (typeof pagination === 'object' && pagination !== null && 'cursor' in pagination && typeof pagination.cursor === 'string') {
+        // Twitch sends an empty cursor on the last page of some endpoints
+        return pagination.cursor || undefined
+    }
+    return undefined
+}
+
+export interface HelixMiddlewareContext {
+    /**
+     * The name of the endpoint being called
+     */
+    readonly endpointName: EndpointName
+    /**
+     * The definition of the endpoint being called
+     */
+    readonly endpoint: AllEndpoints[EndpointName]
+    /**
+     * The outgoing request. Middlewares may modify it before passing it on.
+     */
+    request: HelixHttpRequestArgs
+    /**
+     * The Client ID the call is being made with, or undefined to use the Client ID of the token provider
+     */
+    readonly clientID: string | undefined
+    readonly userAccessToken: UserAccessTokenProvider | undefined
+    readonly appAccessToken: AppAccessTokenProvider | undefined
+}
+
+/**
+ * A step in the request pipeline of {@link DefaultHelixClient}. Call `next` to pass the request on to the next middleware (or the HTTP client, after the last middleware) and return its response. Returning a response without calling `next` short-circuits the request, calling `next` more than once retries it, and wrapping `next` in a try/catch observes errors from later steps.
+ */
+export type HelixMiddleware = (context: HelixMiddlewareContext, next: () => Promise<HelixHttpResponse>) => Promise<HelixHttpResponse>
+
+/**
+ * Returns the providers of the tokens that will be used for a request. A user access token takes precedence over an app access token when the endpoint accepts both.
+ */
+function getRequestTokens(context: HelixMiddlewareContext) {
+    const { endpoint } = context
+    const userAccessToken = endpoint.auth.userAccessToken && context.userAccessToken ? context.userAccessToken : null
+    const appAccessToken = !userAccessToken && endpoint.auth.appAccessToken && context.appAccessToken ? context.appAccessToken : null
+    return { userAccessToken, appAccessToken }
+}
+
+function getTokenIdentity(context: HelixMiddlewareContext): Promise<string> {
+    const { userAccessToken, appAccessToken } = getRequestTokens(context)
+    return getTokenBucketKey(context.clientID, userAccessToken, appAccessToken)
+}
+
+/**
+ * Validates the request query and body against the endpoint's schemas, then parses the response body or throws a {@link HelixApiError} if the response status is not a success.
+ */
+export function createValidationMiddleware(): HelixMiddleware {
+    return async (context, next) => {
+        const { endpointName, endpoint, request } = context
+        if (endpoint.requestQuery) {
+            request.query = endpoint.requestQuery.parse(request.query) as HelixHttpRequestArgs['query']
+        } else if (request.query && Object.keys(request.query).length > 0) {
+            throw new HelixApiError(`Endpoint ${endpointName} does not accept query parameters`, 400, endpointName, { code: HelixErrorCode.INVALID_REQUEST })
+        }
+        if (endpoint.requestBody) {
+            request.body = endpoint.requestBody.parse(request.body) as HelixHttpRequestArgs['body']
+        } else if (request.body && Object.keys(request.body).length > 0) {
+            throw new HelixApiError(`Endpoint ${endpointName} does not accept a request body`, 400, endpointName, { code: HelixErrorCode.INVALID_REQUEST })
+        }
+
+        const response = await next()
+
+        // Extract rate limit info
+        const rateLimitInfo: HelixRateLimitInfo = {
+            limit: response.headers.ratelimitLimit,
+            remaining: response.headers.ratelimitRemaining,
+            resetAt: new Date(response.headers.ratelimitReset * 1000),
+        }
+        
+        let responseBody: unknown = undefined
+        if (endpoint.successCodes.includes(response.status)) {
+            // Endpoints without a response body declare a schema that accepts undefined
+            const expectsBody = !endpoint.responseBody.safeParse(undefined).success
+            if (expectsBody) {
+                if (response.body === undefined) {
+                    throw new HelixApiError(
+                        `Endpoint ${endpointName} returned empty body`,
+                        response.status,
+                        endpointName,
+                        { code: HelixErrorCode.INVALID_RESPONSE, response },
+                    )
+                }
+                responseBody = endpoint.responseBody.parse(response.body)
+            } else if (response.body !== undefined) {
+                throw new HelixApiError(
+                    `Endpoint ${endpointName} did not expect a response body`,
+                    response.status,
+                    endpointName,
+                    { code: HelixErrorCode.INVALID_RESPONSE, response },
+                )
+            }
+            return { ...response, body: responseBody }
+        }
+
+        const errorBody = parseHelixErrorBody(response.body)
+        const isDocumented = endpoint.errorCodes.includes(response.status)
+        const details: HelixApiErrorDetails = {
+            errorBody,
+            code: isDocumented ? endpoint.statusErrorCodes?.[response.status] : undefined,
+            response,
+        }
+        const reason = errorBody?.message ? `: ${errorBody.message}` : ''
+        if (response.status === 429) {
+            const resetTime = rateLimitInfo?.resetAt ? ` (reset at ${rateLimitInfo.resetAt.toISOString()})` : ''
+            throw new HelixApiRateLimitError(
+                `Rate limit exceeded for endpoint ${endpointName}${resetTime}${reason}`,
+                response.status,
+                endpointName,
+                rateLimitInfo,
+                details,
+            )
+        }
+        else if (isDocumented) {
+            throw new HelixApiError(
+                `Endpoint ${endpointName} returned error status ${response.status}${reason}`,
+                response.status,
+                endpointName,
+                details,
+            )
+        } else {
+            throw new HelixApiError(
+                `Endpoint ${endpointName} returned unexpected status ${response.status}${reason}`,
+                response.status,
+                endpointName,
+                details,
+            )
+        }
+    }
+}
+
+/**
+ * Serves GET requests from the response cache when possible and stores successful responses in it.
+ */
+export function createResponseCacheMiddleware(responseCache: HelixResponseCache): HelixMiddleware {
+    return async (context, next) => {
+        // Only GET requests are cached since they have no side effects
+        if (context.request.method !== 'GET') {
+            return next()
+        }
+        const { endpointName, endpoint } = context
+        const tokenIdentity = await getTokenIdentity(context)
+        const cachedResponse = responseCache.get(endpointName, tokenIdentity, context.request.query)
+        if (cachedResponse) {
+            return cachedResponse
+        }
+        const response = await next()
+        if (endpoint.successCodes.includes(response.status)) {
+            responseCache.set(endpointName, tokenIdentity, context.request.query, response)
+        }
+        return response
+    }
+}
+
+/**
+ * Retries failed requests and requests that threw (e.g. network errors) for as long as the retry policy allows.
+ */
+export function createRetryMiddleware(retryPolicy: HelixRetryPolicy = new DefaultHelixRetryPolicy()): HelixMiddleware {
+    return async (context, next) => {
+        const { endpointName, endpoint, request } = context
+        const idempotent = endpoint.idempotent ?? endpoint.method !== 'POST'
+        const startedAt = Date.now()
+        for (let retryCount = 0; ; retryCount++) {
+            let response: HelixHttpResponse | undefined = undefined
+            let error: unknown = undefined
+            try {
+                response = await next()
+                if (endpoint.successCodes.includes(response.status)) {
+                    return response
+                }
+            } catch (e) {
+                // Errors from the client itself, such as missing tokens or scopes, won't go away on retry
+                if (isAbortError(e) || e instanceof HelixApiError) {
+                    throw e
+                }
+                error = e
+            }
+            const delayMs = retryPolicy.getRetryDelay({
+                endpoint: endpointName,
+                idempotent,
+                retryCount,
+                elapsedMs: Date.now() - startedAt,
+                response,
+                error,
+            })
+            if (delayMs === null) {
+                if (response) {
+                    return response
+                }
+                throw error
+            }
+            await wait(delayMs, request.signal)
+        }
+    }
+}
+
+/**
+ * Adds the access token and Client ID headers, checks that the token belongs to the Client ID in use, checks user access token scopes, and refreshes the token once if the request fails with a 401 (Unauthorized) response.
+ */
+export function createAuthMiddleware(): HelixMiddleware {
+    // Requests that have already had their token refreshed, so retries don't refresh it again
+    const refreshedContexts = new WeakSet<HelixMiddlewareContext>()
+    return async (context, next) => {
+        const { endpointName, endpoint } = context
+        const { userAccessToken, appAccessToken } = getRequestTokens(context)
+        if (!userAccessToken && !appAccessToken) {
+            if (endpoint.auth.userAccessToken && endpoint.auth.appAccessToken) {
+                throw new HelixApiError(`Endpoint ${endpointName} requires a user access token or app access token`, 401, endpointName, { code: HelixErrorCode.MISSING_ACCESS_TOKEN })
+            } else if (endpoint.auth.userAccessToken) {
+                throw new HelixApiError(`Endpoint ${endpointName} requires a user access token`, 401, endpointName, { code: HelixErrorCode.MISSING_ACCESS_TOKEN })
+            } else if (endpoint.auth.appAccessToken) {
+                throw new HelixApiError(`Endpoint ${endpointName} requires an app access token`, 401, endpointName, { code: HelixErrorCode.MISSING_ACCESS_TOKEN })
+            }
+        }
+
+        const authorize = async () => {
+            const headers: Record<string, string> = { ...context.request.headers }
+            if (userAccessToken) {
+                const userToken = await userAccessToken.getAccessToken()
+                const clientID = context.clientID ?? userAccessToken.getClientID()
+                assertTokenClientID(clientID, userAccessToken, userToken)
+                if (endpoint.auth.userScopes) {
+                    // Check token scopes
+                    if (!validateScopeSet(endpoint.auth.userScopes, userToken.scopes)) {
+                        throw new HelixInsufficientScopesError(
+                            `User access token does not have required scopes for endpoint ${endpointName}: ${formatScopeSet(endpoint.auth.userScopes)}`,
+                            401, // Unauthorized
+                            endpointName,
+                            endpoint.auth.userScopes,
+                        )
+                    }
+                }
+                headers['Authorization'] = `Bearer ${userToken.accessToken}`
+                headers['Client-ID'] = clientID
+            } else if (appAccessToken) {
+                const appToken = await appAccessToken.getAccessToken()
+                const clientID = context.clientID ?? appAccessToken.getClientID()
+                assertTokenClientID(clientID, appAccessToken, appToken)
+                headers['Authorization'] = `Bearer ${appToken.accessToken}`
+                headers['Client-ID'] = clientID
+            }
+            context.request.headers = headers
+        }
+
+        await authorize()
+        let response = await next()
+
+        // Handle 401 - Unauthorized (try token refresh)
+        const tokenProvider = userAccessToken ?? appAccessToken
+        if (response.status === 401 && tokenProvider && !refreshedContexts.has(context) && tokenProvider.canRefreshAccessToken()) {
+            refreshedContexts.add(context)
+            await tokenProvider.refreshAccessToken()
+            await authorize()
+            response = await next()
+        }
+        return response
+    }
+}
+
+/**
+ * Waits ahead of time when the token's or endpoint's rate limit bucket is exhausted and records the rate limit headers of each response. A 429 (Too Many Requests) response is returned right away; the rate limit manager holds back the next request in the bucket until the limit resets.
+ */
+export function createRateLimitMiddleware(rateLimitManager: HelixRateLimitManager, logger: Logger): HelixMiddleware {
+    return async (context, next) => {
+        const { endpointName, endpoint, request } = context
+        const rateLimitContext: HelixRateLimitContext = {
+            endpoint: endpointName,
+            tokenBucket: await getTokenIdentity(context),
+            endpointRateLimit: endpoint.rateLimit,
+        }
+
+        // Wait ahead of time if the token or endpoint bucket is known to be exhausted
+        let rateLimitDelay: number
+        while ((rateLimitDelay = rateLimitManager.onBeforeRequest(rateLimitContext)) > 0) {
+            logger.debug(`Delaying request to ${endpointName} by ${rateLimitDelay}ms until the rate limit resets`)
+            await wait(rateLimitDelay, request.signal)
+        }
+
+        const response = await next()
+        rateLimitManager.onRequestAttempt(rateLimitContext, response.headers)
+        if (response.status === 429) {
+            const waitMs = rateLimitManager.onRateLimitHit(rateLimitContext)
+            logger.debug(`Rate limit hit for ${endpointName}, holding back requests for ${waitMs}ms`)
+        } else if (endpoint.successCodes.includes(response.status)) {
+            rateLimitManager.onSuccessfulRequest(rateLimitContext)
+        }
+        return response
+    }
+}
+
+/**
+ * Creates the built-in middlewares in their default order: validation, response caching (if a cache is provided), retries, authentication, and rate limiting. Use this to insert your own middlewares around or between the built-in ones.
+ */
+export function createDefaultHelixMiddlewares(services: {
+    logger: Logger,
+    rateLimitManager: HelixRateLimitManager,
+    retryPolicy?: HelixRetryPolicy | undefined,
+    responseCache?: HelixResponseCache | undefined,
+}): HelixMiddleware[] {
+    return [
+        createValidationMiddleware(),
+        ...(services.responseCache ? [createResponseCacheMiddleware(services.responseCache)] : []),
+        createRetryMiddleware(services.retryPolicy),
+        createAuthMiddleware(),
+        createRateLimitMiddleware(services.rateLimitManager, services.logger),
+    ]
+}
+
 // We add the endpoint functions dynamically below; this satisfies TypeScript
-export declare interface DefaultHelixClient extends AllEndpointFunctions {}
+export declare interface DefaultHelixClient extends AllEndpointFunctions, AllPaginateFunctions {}
 
 export class DefaultHelixClient implements HelixClient {
+    private readonly middlewares: HelixMiddleware[]
+
+    /**
+     * @param services.retryPolicy Decides which failed requests to retry and when. Defaults to {@link DefaultHelixRetryPolicy}. Ignored if custom middlewares are provided.
+     * @param services.middlewares The request pipeline, in order from outermost to innermost. Defaults to {@link createDefaultHelixMiddlewares}.
+     */
     constructor(private readonly services: {
         logger: Logger,
         httpClient: HelixHttpClient,
         rateLimitManager: HelixRateLimitManager,
+        retryPolicy?: HelixRetryPolicy,
+        responseCache?: HelixResponseCache,
+        middlewares?: HelixMiddleware[],
     }) {
+        this.middlewares = services.middlewares ?? createDefaultHelixMiddlewares(services)
         for (const endpointName of Object.keys(ALL_ENDPOINTS) as EndpointName[]) {
             const functionName = endpointName.charAt(0).toLowerCase() + endpointName.slice(1)
             ; (this as any)[functionName] = this.createEndpointFunction(endpointName).bind(this)
+            if (ALL_ENDPOINTS[endpointName].pagination) {
+                ; (this as any)[`paginate${endpointName}`] = this.createPaginateFunction(endpointName as PaginatedEndpointName).bind(this)
+            }
         }
     }
-    
-    private createEndpointFunction<N extends EndpointName>(endpointName: N): EndpointFunction<N> {
-        const { httpClient, rateLimitManager } = this.services
+
+    private createPaginateFunction<N extends PaginatedEndpointName>(endpointName: N): PaginateFunction<N> {
         const endpointDef = ALL_ENDPOINTS[endpointName]
-        return async ({ query: rawQuery, body: rawBody, appAccessToken, userAccessToken, signal }: { query?: unknown, body?: unknown } & EndpointCallOptions) => {
-            const url = `${BASE_URL}${endpointDef.path}`
-            const method = endpointDef.method
-            let query: any = undefined
-            if (endpointDef.requestQuery) {
-                query = endpointDef.requestQuery.parse(rawQuery)
-            } else if (rawQuery && Object.keys(rawQuery).length > 0) {
-                throw new HelixApiError(`Endpoint ${endpointName} does not accept query parameters`, 400, endpointName)
-            }
-            let body: any = undefined
-            if (endpointDef.requestBody) {
-                body = endpointDef.requestBody.parse(rawBody)
-            } else if (rawBody && Object.keys(rawBody).length > 0) {
-                throw new HelixApiError(`Endpoint ${endpointName} does not accept a request body`, 400, endpointName)
+        const pagination = endpointDef.pagination as EndpointPagination
+        return ({ maxItems, direction = 'forward', ...params }: { query?: unknown, body?: unknown } & AnyEndpointCallOptions & PaginateOptions) => {
+            if (direction === 'backward' && !pagination.before) {
+                throw new HelixApiError(`Endpoint ${endpointName} does not support backward pagination`, 400, endpointName, { code: HelixErrorCode.UNSUPPORTED_PAGINATION })
             }
+            const cursorParam = direction === 'backward' ? 'before' : pagination.cursorParam
+            const oppositeCursorParam = direction === 'backward' ? pagination.cursorParam : 'before'
 
-            if (endpointDef.auth.userAccessToken && userAccessToken) {
-                // User token provided (takes precedence over app token)
-            } else if (endpointDef.auth.appAccessToken && appAccessToken) {
-                // App token provided
-            } else if (endpointDef.auth.userAccessToken || endpointDef.auth.appAccessToken) {
-                throw new HelixApiError(`Endpoint ${endpointName} requires a user access token or app access token`, 401, endpointName)
-            } else if (endpointDef.auth.userAccessToken) {
-                throw new HelixApiError(`Endpoint ${endpointName} requires a user access token`, 401, endpointName)
-            } else if (endpointDef.auth.appAccessToken) {
-                throw new HelixApiError(`Endpoint ${endpointName} requires an app access token`, 401, endpointName)
-            }
-            
-            let response: HelixHttpResponse
-            let retryAttempts = 0
-            let hasRefreshedToken = false
-            
-            // Main request loop with retry logic
-            do {
-                const headers: Record<string, string> = {}
-                if (userAccessToken && endpointDef.auth.userAccessToken) {
-                    const userToken = await userAccessToken.getAccessToken()
-                    if (endpointDef.auth.userScopes) {
-                        // Check token scopes
-                        if (!validateScopeSet(endpointDef.auth.userScopes, userToken.scopes)) {
-                            throw new HelixInsufficientScopesError(
-                                `User access token does not have required scopes for endpoint ${endpointName}: ${formatScopeSet(endpointDef.auth.userScopes)}`,
-                                401, // Unauthorized
-                                endpointName,
-                                endpointDef.auth.userScopes,
-                            )
-                        }
+            const initialQuery: Record<string, unknown> = typeof params.query === 'object' && params.query !== null ? { ...params.query } : {}
+            const initialCursor = initialQuery[cursorParam]
+            const callEndpoint = (query: Record<string, unknown>) => this.callEndpoint(endpointName, { ...params, query })
+
+            async function* pages(): AsyncGenerator<InferResponseBody<AllEndpoints[N]>> {
+                let cursor = typeof initialCursor === 'string' ? initialCursor : undefined
+                let itemCount = 0
+                do {
+                    params.signal?.throwIfAborted()
+                    const query = { ...initialQuery }
+                    if (cursor) {
+                        query[cursorParam] = cursor
+                        delete query[oppositeCursorParam]
                     }
-                    headers['Authorization'] = `Bearer ${userToken.accessToken}`
-                    headers['Client-ID'] = userAccessToken.getClientID()
-                } else if (appAccessToken && endpointDef.auth.appAccessToken) {
-                    const appToken = await appAccessToken.getAccessToken()
-                    headers['Authorization'] = `Bearer ${appToken.accessToken}`
-                    headers['Client-ID'] = appAccessToken.getClientID()
-                }
-                response = await httpClient.fetch({ method, url, headers, query, body, signal })
-                rateLimitManager.onRequestAttempt(response.headers)
-                
-                // Handle 401 - Unauthorized (try token refresh)
-                if (response.status === 401 && !hasRefreshedToken) {
-                    if (endpointDef.auth.userAccessToken && userAccessToken && userAccessToken.canRefreshAccessToken()) {
-                        await userAccessToken.refreshAccessToken()
-                        hasRefreshedToken = true
-                    } else if (endpointDef.auth.appAccessToken && appAccessToken && appAccessToken.canRefreshAccessToken()) {
-                        await appAccessToken.refreshAccessToken()
-                        hasRefreshedToken = true
-                    } else {
-                        // If can't refresh or already tried, will fall through to error handling
+                    const page = await callEndpoint(query)
+                    const items = getPaginatedItems(page)
+                    itemCount += items.length
+                    yield page as InferResponseBody<AllEndpoints[N]>
+                    if (items.length === 0) {
                         break
                     }
-                }
-                // Handle 429 - Rate Limit (wait and retry)
-                else if (response.status === 429) {
-                    const waitMs = rateLimitManager.onRateLimitHit()
-                    await wait(waitMs, signal)
-                }
-                // Handle 503 - Service Unavailable (wait and retry)
-                else if (response.status === 503) {
-                    await wait(1000, signal)
-                }
-                // Exit loop on any other status
-                else {
-                    break
-                }
-            } while (retryAttempts++ < MAX_RETRY_ATTEMPTS)
-            
-            // Extract rate limit info
-            const rateLimitInfo: HelixRateLimitInfo = {
-                limit: response.headers.ratelimitLimit,
-                remaining: response.headers.ratelimitRemaining,
-                resetAt: new Date(response.headers.ratelimitReset * 1000),
+                    cursor = getPaginationCursor(page)
+                } while (cursor && (maxItems === undefined || itemCount < maxItems))
             }
-            
-            let responseBody: any = undefined
-            if (endpointDef.successCodes.includes(response.status)) {
-                rateLimitManager.onSuccessfulRequest()
-
-                if (endpointDef.responseBody) {
-                    if (!response.body) {
-                        throw new HelixApiError(
-                            `Endpoint ${endpointName} returned empty body`,
-                            response.status,
-                            endpointName,
-                        )
+
+            async function* items() {
+                if (maxItems !== undefined && maxItems <= 0) {
+                    return
+                }
+                let itemCount = 0
+                for await (const page of pages()) {
+                    for (const item of getPaginatedItems(page)) {
+                        yield item as PaginatedItem<N>
+                        if (maxItems !== undefined && ++itemCount >= maxItems) {
+                            return
+                        }
                     }
-                    responseBody = endpointDef.responseBody.parse(response.body)
-                } else if (response.body && Object.keys(response.body).length > 0) {
-                    throw new HelixApiError(
-                        `Endpoint ${endpointName} did not expect a response body`,
-                        response.status,
-                        endpointName,
-                    )
                 }
             }
-            else if (response.status === 429) {
-                const resetTime = rateLimitInfo?.resetAt ? ` (reset at ${rateLimitInfo.resetAt.toISOString()})` : ''
-                throw new HelixApiRateLimitError(
-                    `Rate limit exceeded for endpoint ${endpointName}${resetTime}`,
-                    response.status,
-                    endpointName,
-                    rateLimitInfo,
-                )
+
+            return {
+                [Symbol.asyncIterator]: items,
+                pages,
+                toArray: async () => {
+                    const result: PaginatedItem<N>[] = []
+                    for await (const item of items()) {
+                        result.push(item)
+                    }
+                    return result
+                },
             }
-            else if (endpointDef.errorCodes.includes(response.status)) {
-                throw new HelixApiError(
-                    `Endpoint ${endpointName} returned error status ${response.status}`,
-                    response.status,
-                    endpointName,
-                )
-            } else {
-                throw new HelixApiError(
-                    `Endpoint ${endpointName} returned unexpected status ${response.status}`,
-                    response.status,
-                    endpointName,
-                )
+        }
+    }
+    
+    private createEndpointFunction<N extends EndpointName>(endpointName: N): EndpointFunction<N> {
+        return (params: { query?: unknown, body?: unknown } & AnyEndpointCallOptions) => this.callEndpoint(endpointName, params) as Promise<InferResponseBody<AllEndpoints[N]>>
+    }
+
+    /**
+     * Sends a request to an endpoint through the middleware chain and returns the response body, which the response validation middleware has checked against the endpoint's schema
+     */
+    private async callEndpoint(endpointName: EndpointName, { query, body, clientID, appAccessToken, userAccessToken, signal }: { query?: unknown, body?: unknown } & AnyEndpointCallOptions): Promise<unknown> {
+        const { httpClient } = this.services
+        const endpointDef = ALL_ENDPOINTS[endpointName]
+        const context: HelixMiddlewareContext = {
+            endpointName,
+            endpoint: endpointDef,
+            request: {
+                method: endpointDef.method,
+                url: `${BASE_URL}${endpointDef.path}`,
+                headers: {},
+                query: query as HelixHttpRequestArgs['query'],
+                body: body as HelixHttpRequestArgs['body'],
+                responseType: endpointDef.responseType,
+                signal,
+            },
+            clientID,
+            userAccessToken,
+            appAccessToken,
+        }
+        // Run each middleware in order, with the HTTP client at the end of the chain
+        const dispatch = (index: number): Promise<HelixHttpResponse> => {
+            const middleware = this.middlewares[index]
+            if (!middleware) {
+                return httpClient.fetch(context.request)
             }
-            return responseBody
+            return middleware(context, () => dispatch(index + 1))
         }
+        const response = await dispatch(0)
+        return response.body
     }
 }
@@ -0,0 +1,327 @@
+// Parser for the iCalendar (RFC 5545) documents returned by the Get Channel iCalendar endpoint.
+// Only the subset of the format that Twitch emits is supported: a single VCALENDAR containing VEVENT components.
+
+export interface ICalendar {
+    /** The product identifier of the software that generated the calendar (PRODID). */
+    productID: string | null
+    /** The display name of the calendar (X-WR-CALNAME). */
+    name: string | null
+    /** The default time zone of the calendar (X-WR-TIMEZONE), or the first VTIMEZONE's TZID if not set. */
+    timezone: string | null
+    /** The stream schedule segments in the calendar. */
+    events: ICalendarEvent[]
+}
+
+export interface ICalendarEvent {
+    /** The unique identifier of the event (UID). For Twitch schedules, this is the segment ID. */
+    uid: string
+    /** The title of the event (SUMMARY). */
+    summary: string
+    /** The description of the event (DESCRIPTION). */
+    description: string | null
+    /** When the event starts (DTSTART). */
+    start: ICalendarDateTime
+    /** When the event ends (DTEND), or null if the event has no end time. */
+    end: ICalendarDateTime | null
+    /** When the event was last generated (DTSTAMP). */
+    timestamp: ICalendarDateTime | null
+    /** The categories of the event (CATEGORIES). For Twitch schedules, this is the stream category. */
+    categories: string[]
+    /** How the event repeats (RRULE), or null if the event does not repeat. */
+    recurrence: ICalendarRecurrenceRule | null
+    /** Occurrences of a recurring event that have been removed (EXDATE). */
+    exceptionDates: ICalendarDateTime[]
+}
+
+export interface ICalendarDateTime {
+    /** The instant the value refers to. Date-only values resolve to midnight at the start of the day. */
+    date: Date
+    /** The time zone the value was specified in (TZID), or null for UTC and floating values. */
+    timezone: string | null
+    /** Whether the value is a whole day rather than a specific time. */
+    isAllDay: boolean
+    /** The raw value as it appeared in the calendar. */
+    raw: string
+}
+
+export type ICalendarFrequency = 'SECONDLY' | 'MINUTELY' | 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+export interface ICalendarRecurrenceRule {
+    frequency: ICalendarFrequency
+    /** How many frequency units pass between occurrences. Defaults to 1. */
+    interval: number
+    /** The number of occurrences, or null if the rule is not bounded by a count. */
+    count: number | null
+    /** The last possible occurrence, or null if the rule is not bounded by a date. */
+    until: ICalendarDateTime | null
+    /** Weekdays the event occurs on (e.g. `MO`, `-1FR`). */
+    byDay: string[]
+    byMonthDay: number[]
+    byMonth: number[]
+    /** The day the week starts on (WKST). */
+    weekStart: string | null
+    /** The raw RRULE value. */
+    raw: string
+}
+
+export class ICalendarParseError extends Error {
+    /**
+     * @param text The document that failed to parse, if known.
+     * @param endpoint The endpoint that returned the document, if it came from a Helix response.
+     */
+    constructor(
+        message: string,
+        public readonly text: string | null = null,
+        public readonly endpoint: string | null = null,
+    ) {
+        super(message)
+        this.name = 'ICalendarParseError'
+    }
+}
+
+interface ContentLine {
+    name: string
+    params: Record<string, string>
+    value: string
+}
+
+const FREQUENCIES: ICalendarFrequency[] = ['SECONDLY', 'MINUTELY', 'HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']
+
+function unfoldLines(text: string): string[] {
+    // Long lines are folded by inserting a line break followed by a single space or tab
+    return text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.length > 0)
+}
+
+function parseContentLine(line: string): ContentLine {
+    // Find the first colon that is not inside a quoted parameter value
+    let inQuotes = false
+    let colonIndex = -1
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i]
+        if (char === '"') {
+            inQuotes = !inQuotes
+        } else if (char === ':' && !inQuotes) {
+            colonIndex = i
+            break
+        }
+    }
+    if (colonIndex === -1) {
+        throw new ICalendarParseError(`Invalid content line: ${line}`)
+    }
+    const [name, ...rawParams] = line.slice(0, colonIndex).split(';')
+    const params: Record<string, string> = {}
+    for (const rawParam of rawParams) {
+        const equalsIndex = rawParam.indexOf('=')
+        if (equalsIndex === -1) {
+            continue
+        }
+        params[rawParam.slice(0, equalsIndex).toUpperCase()] = rawParam.slice(equalsIndex + 1).replace(/^"(.*)"$/, '$1')
+    }
+    return {
+        name: name!.toUpperCase(),
+        params,
+        value: line.slice(colonIndex + 1),
+    }
+}
+
+function unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, char: string) => char === 'n' || char === 'N' ? '\n' : char)
+}
+
+function splitEscapedList(value: string): string[] {
+    // Split on commas that are not escaped with a backslash
+    return value.split(/(?<!\\),/).map(unescapeText).filter(item => item.length > 0)
+}
+
+function getTimezoneOffsetMs(timezone: string, utcMs: number): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+    }).formatToParts(new Date(utcMs))
+    const get = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find(p => p.type === type)?.value ?? '0', 10)
+    const localMs = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+    return localMs - utcMs
+}
+
+function parseDateTime(value: string, tzid: string | undefined): ICalendarDateTime {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value)
+    if (!match) {
+        throw new ICalendarParseError(`Invalid date-time value: ${value}`)
+    }
+    const [, year, month, day, hour, minute, second, utc] = match
+    const isAllDay = hour === undefined
+    const wallClockMs = Date.UTC(parseInt(year!, 10), parseInt(month!, 10) - 1, parseInt(day!, 10), parseInt(hour ?? '0', 10), parseInt(minute ?? '0', 10), parseInt(second ?? '0', 10))
+    // Some generators prefix TZIDs with a slash to mark them as globally unique
+    const timezone = !utc && tzid ? tzid.replace(/^\//, '') : null
+    let ms = wallClockMs
+    if (timezone) {
+        try {
+            // Resolve the wall-clock time in the given zone; the second pass corrects for DST transitions between the guess and the result
+            const firstGuess = wallClockMs - getTimezoneOffsetMs(timezone, wallClockMs)
+            ms = wallClockMs - getTimezoneOffsetMs(timezone, firstGuess)
+        } catch {
+            throw new ICalendarParseError(`Unknown time zone: ${tzid}`)
+        }
+    }
+    return {
+        date: new Date(ms),
+        timezone,
+        isAllDay,
+        raw: value,
+    }
+}
+
+function parseRecurrenceRule(value: string, tzid: string | undefined): ICalendarRecurrenceRule {
+    const parts: Record<string, string> = {}
+    for (const part of value.split(';')) {
+        const [key, partValue] = part.split('=')
+        if (key && partValue !== undefined) {
+            parts[key.toUpperCase()] = partValue
+        }
+    }
+    const frequency = parts['FREQ']?.toUpperCase() as ICalendarFrequency | undefined
+    if (!frequency || !FREQUENCIES.includes(frequency)) {
+        throw new ICalendarParseError(`Invalid recurrence rule frequency: ${value}`)
+    }
+    const parseNumberList = (list: string | undefined) => list ? list.split(',').map(n => parseInt(n, 10)) : []
+    return {
+        frequency,
+        interval: parts['INTERVAL'] ? parseInt(parts['INTERVAL'], 10) : 1,
+        count: parts['COUNT'] ? parseInt(parts['COUNT'], 10) : null,
+        until: parts['UNTIL'] ? parseDateTime(parts['UNTIL'], tzid) : null,
+        byDay: parts['BYDAY'] ? parts['BYDAY'].split(',') : [],
+        byMonthDay: parseNumberList(parts['BYMONTHDAY']),
+        byMonth: parseNumberList(parts['BYMONTH']),
+        weekStart: parts['WKST'] ?? null,
+        raw: value,
+    }
+}
+
+function parseEvent(lines: ContentLine[]): ICalendarEvent {
+    let uid: string | null = null
+    let summary = ''
+    let description: string | null = null
+    let start: ICalendarDateTime | null = null
+    let end: ICalendarDateTime | null = null
+    let timestamp: ICalendarDateTime | null = null
+    let rrule: ContentLine | null = null
+    const categories: string[] = []
+    const exceptionDates: ICalendarDateTime[] = []
+    for (const line of lines) {
+        switch (line.name) {
+            case 'UID':
+                uid = line.value
+                break
+            case 'SUMMARY':
+                summary = unescapeText(line.value)
+                break
+            case 'DESCRIPTION':
+                description = unescapeText(line.value)
+                break
+            case 'DTSTART':
+                start = parseDateTime(line.value, line.params['TZID'])
+                break
+            case 'DTEND':
+                end = parseDateTime(line.value, line.params['TZID'])
+                break
+            case 'DTSTAMP':
+                timestamp = parseDateTime(line.value, line.params['TZID'])
+                break
+            case 'CATEGORIES':
+                categories.push(...splitEscapedList(line.value))
+                break
+            case 'RRULE':
+                rrule = line
+                break
+            case 'EXDATE':
+                for (const exdate of line.value.split(',')) {
+                    exceptionDates.push(parseDateTime(exdate, line.params['TZID']))
+                }
+                break
+        }
+    }
+    if (!uid) {
+        throw new ICalendarParseError('VEVENT is missing a UID')
+    }
+    if (!start) {
+        throw new ICalendarParseError(`VEVENT ${uid} is missing a DTSTART`)
+    }
+    // UNTIL must be interpreted in the same time zone as DTSTART when it is not in UTC
+    const recurrence = rrule ? parseRecurrenceRule(rrule.value, start.timezone ?? undefined) : null
+    return {
+        uid,
+        summary,
+        description,
+        start,
+        end,
+        timestamp,
+        categories,
+        recurrence,
+        exceptionDates,
+    }
+}
+
+/**
+ * Parses an iCalendar document into its calendar properties and events.
+ * @param text The raw iCalendar text.
+ */
+export function parseICalendar(text: string): ICalendar {
+    const lines = unfoldLines(text).map(parseContentLine)
+    if (lines[0]?.name !== 'BEGIN' || lines[0].value.toUpperCase() !== 'VCALENDAR') {
+        throw new ICalendarParseError('Document does not start with BEGIN:VCALENDAR')
+    }
+
+    const calendar: ICalendar = {
+        productID: null,
+        name: null,
+        timezone: null,
+        events: [],
+    }
+    // Tracks nested components; only properties directly inside VCALENDAR or VEVENT are read
+    const componentStack: string[] = []
+    let eventLines: ContentLine[] | null = null
+    for (const line of lines) {
+        if (line.name === 'BEGIN') {
+            const component = line.value.toUpperCase()
+            componentStack.push(component)
+            if (component === 'VEVENT') {
+                eventLines = []
+            }
+        } else if (line.name === 'END') {
+            const component = componentStack.pop()
+            if (component !== line.value.toUpperCase()) {
+                throw new ICalendarParseError(`Mismatched END:${line.value}`)
+            }
+            if (component === 'VEVENT' && eventLines) {
+                calendar.events.push(parseEvent(eventLines))
+                eventLines = null
+            }
+        } else if (componentStack.at(-1) === 'VEVENT' && eventLines) {
+            eventLines.push(line)
+        } else if (componentStack.at(-1) === 'VTIMEZONE' && line.name === 'TZID') {
+            calendar.timezone ??= line.value.replace(/^\//, '')
+        } else if (componentStack.length === 1) {
+            switch (line.name) {
+                case 'PRODID':
+                    calendar.productID = line.value
+                    break
+                case 'X-WR-CALNAME':
+                    calendar.name = unescapeText(line.value)
+                    break
+                case 'X-WR-TIMEZONE':
+                    calendar.timezone = line.value
+                    break
+            }
+        }
+    }
+    if (componentStack.length > 0) {
+        throw new ICalendarParseError(`Unterminated component: ${componentStack.at(-1)}`)
+    }
+    return calendar
+}
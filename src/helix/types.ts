@@ -1,28 +1,122 @@
 import * as z from 'zod'
 import type { UserAccessTokenScopeSet } from '../auth/types.js'
+import { ICalendarParseError, parseICalendar } from './icalendar.js'
 
-interface EndpointDefinition<RequestQuerySchema extends z.ZodType, RequestBodySchema extends z.ZodType, ResponseBodySchema extends z.ZodType> {
+export interface EndpointPagination {
+    /** The query parameter that the cursor from the previous page is passed back in. */
+    cursorParam: 'after' | 'cursor'
+    /** Whether the endpoint also accepts a `before` cursor to page backwards. */
+    before?: boolean
+}
+
+export interface EndpointRateLimit {
+    /** The number of requests allowed within each window, if Twitch documents one. If omitted, the limit is only enforced after Twitch responds with a 429. */
+    limit?: number
+    /** The length of the rate limit window in seconds. */
+    windowSeconds: number
+}
+
+/**
+ * Stable codes for the ways a Helix call can fail, so consumers can handle failures without matching on messages
+ */
+export enum HelixErrorCode {
+    BAD_REQUEST = 'bad_request',
+    UNAUTHORIZED = 'unauthorized',
+    FORBIDDEN = 'forbidden',
+    NOT_FOUND = 'not_found',
+    CONFLICT = 'conflict',
+    UNPROCESSABLE_ENTITY = 'unprocessable_entity',
+    RATE_LIMITED = 'rate_limited',
+    SERVER_ERROR = 'server_error',
+    /** A failed status that none of the other codes cover */
+    UNEXPECTED_STATUS = 'unexpected_status',
+    /** The request was rejected before being sent, e.g. because the endpoint does not accept query parameters */
+    INVALID_REQUEST = 'invalid_request',
+    /** The response body did not match what the endpoint documents */
+    INVALID_RESPONSE = 'invalid_response',
+    MISSING_ACCESS_TOKEN = 'missing_access_token',
+    INSUFFICIENT_SCOPES = 'insufficient_scopes',
+    UNSUPPORTED_PAGINATION = 'unsupported_pagination',
+
+    // Endpoint-specific meanings of failed statuses, as mapped by the endpoint definitions
+
+    /** The user in `moderator_id` is not one of the broadcaster's moderators */
+    NOT_A_MODERATOR = 'not_a_moderator',
+    /** The token's user is not the broadcaster */
+    NOT_THE_BROADCASTER = 'not_the_broadcaster',
+    /** Another request is updating the same state at the same time */
+    CONCURRENT_UPDATE = 'concurrent_update',
+    BROADCASTER_NOT_LIVE = 'broadcaster_not_live',
+    /** The message is empty or too long, or the reply parent message does not exist */
+    INVALID_CHAT_MESSAGE = 'invalid_chat_message',
+    /** The sender may not send messages to the broadcaster's chat room */
+    CHAT_NOT_ALLOWED = 'chat_not_allowed',
+    CHAT_MESSAGE_TOO_LARGE = 'chat_message_too_large',
+    /** The broadcaster has restricted clip creation */
+    CLIPS_RESTRICTED = 'clips_restricted',
+    /** The user may not be banned, is already banned, or the ban duration or reason is invalid */
+    CANNOT_BAN_USER = 'cannot_ban_user',
+    USER_NOT_BANNED = 'user_not_banned',
+    /** The user is a VIP and must be removed as one before being made a moderator */
+    USER_IS_VIP = 'user_is_vip',
+    /** The user is a moderator and must be removed as one before being made a VIP */
+    USER_IS_MODERATOR = 'user_is_moderator',
+    USER_NOT_VIP = 'user_not_vip',
+    /** The broadcaster has no VIP slots left */
+    VIP_SLOTS_FULL = 'vip_slots_full',
+    /** The broadcaster hasn't completed the Build a Community achievement that unlocks VIPs */
+    VIPS_NOT_UNLOCKED = 'vips_not_unlocked',
+    /** The title or a choice is too long, there are too few or too many choices, the duration is out of range, or the broadcaster already has an active poll */
+    INVALID_POLL = 'invalid_poll',
+    /** The broadcaster may not raid themselves, or the targeted channel does not accept raids from this broadcaster */
+    CANNOT_RAID = 'cannot_raid',
+    /** The user may not whisper themselves, or the message is empty or too long */
+    INVALID_WHISPER = 'invalid_whisper',
+    /** The sender has no verified phone number, or the recipient's settings don't allow whispers from the sender */
+    WHISPER_NOT_ALLOWED = 'whisper_not_allowed',
+    WHISPER_RECIPIENT_NOT_FOUND = 'whisper_recipient_not_found',
+    /** A subscription already exists for the event type and condition */
+    SUBSCRIPTION_EXISTS = 'subscription_exists',
+}
+
+interface EndpointDefinition<RequestQuerySchema extends z.ZodType, RequestBodySchema extends z.ZodType, ResponseBodySchema extends z.ZodType, Pagination extends EndpointPagination | undefined = undefined, UserAuth extends boolean = false, AppAuth extends boolean = false> {
+    /** Which token types the endpoint accepts. The flags are captured as type parameters so that calls without an accepted token fail to compile. */
     auth: {
-        appAccessToken?: boolean
-        userAccessToken?: boolean
+        appAccessToken?: AppAuth
+        userAccessToken?: UserAuth
         userScopes?: UserAccessTokenScopeSet
+        /** The query or body parameter naming the user the call is made as, whose user access token must be used, e.g. `moderator_id` for BanUser. Null if the call acts as the token's user without naming them, e.g. UpdateUser. Omitted for calls that don't act as a particular user. */
+        actingUserParam?: string | null
     }
     method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH'
     path: string
     requestQuery: RequestQuerySchema
     requestBody: RequestBodySchema
     responseBody: ResponseBodySchema
+    /** How the response body is read before being validated against the response body schema: parsed as JSON (the default), as text, or as raw bytes. */
+    responseType?: 'json' | 'text' | 'bytes'
+    /** Whether repeating the request has no further effect, so it can be retried after a failure without risking a duplicate. Defaults to true for every method except POST. */
+    idempotent?: boolean
     successCodes: number[]
     errorCodes: number[]
+    /** The codes for what documented error statuses mean for this endpoint specifically, e.g. that a 400 from BanUser means the user can't be banned. Errors thrown for other statuses get the generic code for the status. */
+    statusErrorCodes?: { [status: number]: HelixErrorCode }
+    pagination?: Pagination
+    /** An endpoint-specific rate limit that applies on top of the regular per-token Helix rate limit. */
+    rateLimit?: EndpointRateLimit
 }
 
-export type InferRequestQuery<T extends EndpointDefinition<any, any, any>> = T extends EndpointDefinition<infer S, infer _, infer _> ? z.infer<S> : never
-export type InferRequestBody<T extends EndpointDefinition<any, any, any>> = T extends EndpointDefinition<infer _, infer S, infer _> ? z.infer<S> : never
-export type InferResponseBody<T extends EndpointDefinition<any, any, any>> = T extends EndpointDefinition<infer _, infer _, infer S> ? z.infer<S> : never
+type AnyEndpointDefinition = EndpointDefinition<any, any, any, any, any, any>
 
-function defineEndpoint<RequestQuerySchema extends z.ZodType, RequestBodySchema extends z.ZodType, ResponseBodySchema extends z.ZodType>(
-    def: EndpointDefinition<RequestQuerySchema, RequestBodySchema, ResponseBodySchema>
-): EndpointDefinition<RequestQuerySchema, RequestBodySchema, ResponseBodySchema> {
+export type InferRequestQuery<T extends AnyEndpointDefinition> = T extends EndpointDefinition<infer S, infer _, infer _, any, any, any> ? z.infer<S> : never
+export type InferRequestBody<T extends AnyEndpointDefinition> = T extends EndpointDefinition<infer _, infer S, infer _, any, any, any> ? z.infer<S> : never
+export type InferResponseBody<T extends AnyEndpointDefinition> = T extends EndpointDefinition<infer _, infer _, infer S, any, any, any> ? z.infer<S> : never
+export type InferPagination<T extends AnyEndpointDefinition> = T extends EndpointDefinition<any, any, any, infer P, any, any> ? P : never
+export type InferAuth<T extends AnyEndpointDefinition> = T extends EndpointDefinition<any, any, any, any, infer U, infer A> ? { userAccessToken: U, appAccessToken: A } : never
+
+function defineEndpoint<RequestQuerySchema extends z.ZodType, RequestBodySchema extends z.ZodType, ResponseBodySchema extends z.ZodType, Pagination extends EndpointPagination | undefined = undefined, UserAuth extends boolean = false, AppAuth extends boolean = false>(
+    def: EndpointDefinition<RequestQuerySchema, RequestBodySchema, ResponseBodySchema, Pagination, UserAuth, AppAuth>
+): EndpointDefinition<RequestQuerySchema, RequestBodySchema, ResponseBodySchema, Pagination, UserAuth, AppAuth> {
     return def
 }
 
@@ -32,6 +126,7 @@ export const StartCommercial = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:edit:commercial',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'POST',
     path: 'channels/commercial',
@@ -58,6 +153,7 @@ export const GetAdSchedule = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:ads',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'GET',
     path: 'channels/ads',
@@ -86,6 +182,7 @@ export const SnoozeNextAd = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:ads',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'POST',
     path: 'channels/ads/schedule/snooze',
@@ -113,6 +210,7 @@ export const GetExtensionAnalytics = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'analytics:read:extensions',
+        actingUserParam: null,
     },
     method: 'GET',
     path: 'analytics/extensions',
@@ -141,6 +239,9 @@ export const GetExtensionAnalytics = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401, 404],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetExtensionAnalyticsQuery = InferRequestQuery<typeof GetExtensionAnalytics>
@@ -150,6 +251,7 @@ export const GetGameAnalytics = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'analytics:read:games',
+        actingUserParam: null,
     },
     method: 'GET',
     path: 'analytics/games',
@@ -178,6 +280,9 @@ export const GetGameAnalytics = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401, 404],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetGameAnalyticsQuery = InferRequestQuery<typeof GetGameAnalytics>
@@ -189,6 +294,7 @@ export const GetBitsLeaderboard = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'bits:read',
+        actingUserParam: null,
     },
     method: 'GET',
     path: 'bits/leaderboard',
@@ -329,6 +435,9 @@ export const GetExtensionTransactions = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401, 404],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetExtensionTransactionsQuery = InferRequestQuery<typeof GetExtensionTransactions>
@@ -373,6 +482,7 @@ export const ModifyChannelInformation = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:broadcast',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'PATCH',
     path: 'channels',
@@ -400,6 +510,7 @@ export const GetChannelEditors = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:editors',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'GET',
     path: 'channels/editors',
@@ -425,6 +536,7 @@ export const GetFollowedChannels = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'user:read:follows',
+        actingUserParam: 'user_id',
     },
     method: 'GET',
     path: 'channels/followed',
@@ -449,6 +561,9 @@ export const GetFollowedChannels = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetFollowedChannelsQuery = InferRequestQuery<typeof GetFollowedChannels>
@@ -458,6 +573,7 @@ export const GetChannelFollowers = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:read:followers',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'GET',
     path: 'channels/followers',
@@ -482,6 +598,9 @@ export const GetChannelFollowers = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetChannelFollowersQuery = InferRequestQuery<typeof GetChannelFollowers>
@@ -493,6 +612,7 @@ export const CreateCustomRewards = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:redemptions',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'POST',
     path: 'channel_points/custom_rewards',
@@ -567,6 +687,7 @@ export const DeleteCustomReward = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:redemptions',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'DELETE',
     path: 'channel_points/custom_rewards',
@@ -586,6 +707,7 @@ export const GetCustomReward = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:redemptions',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'GET',
     path: 'channel_points/custom_rewards',
@@ -647,6 +769,7 @@ export const GetCustomRewardRedemption = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:redemptions',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'GET',
     path: 'channel_points/custom_rewards/redemptions',
@@ -685,6 +808,9 @@ export const GetCustomRewardRedemption = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401, 403, 404],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetCustomRewardRedemptionQuery = InferRequestQuery<typeof GetCustomRewardRedemption>
@@ -694,6 +820,7 @@ export const UpdateCustomReward = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:redemptions',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'PATCH',
     path: 'channel_points/custom_rewards',
@@ -770,6 +897,7 @@ export const UpdateRedemptionStatus = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:redemptions',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'PATCH',
     path: 'channel_points/custom_rewards/redemptions',
@@ -815,6 +943,7 @@ export const GetCharityCampaign = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:charity',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'GET',
     path: 'charity/campaigns',
@@ -855,6 +984,7 @@ export const GetCharityCampaignDonations = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:charity',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'GET',
     path: 'charity/donations',
@@ -883,6 +1013,9 @@ export const GetCharityCampaignDonations = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetCharityCampaignDonationsQuery = InferRequestQuery<typeof GetCharityCampaignDonations>
@@ -894,6 +1027,7 @@ export const GetChatters = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:read:chatters',
+        actingUserParam: 'moderator_id',
     },
     method: 'GET',
     path: 'chat/chatters',
@@ -917,6 +1051,9 @@ export const GetChatters = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401, 403],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetChattersQuery = InferRequestQuery<typeof GetChatters>
@@ -1154,6 +1291,7 @@ export const GetUserEmotes = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'user:read:emotes',
+        actingUserParam: 'user_id',
     },
     method: 'GET',
     path: 'chat/emotes/user',
@@ -1186,6 +1324,9 @@ export const GetUserEmotes = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetUserEmotesQuery = InferRequestQuery<typeof GetUserEmotes>
@@ -1195,6 +1336,7 @@ export const UpdateChatSettings = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:manage:chat_settings',
+        actingUserParam: 'moderator_id',
     },
     method: 'PATCH',
     path: 'chat/settings',
@@ -1240,6 +1382,7 @@ export const SendChatAnnouncement = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:manage:announcements',
+        actingUserParam: 'moderator_id',
     },
     method: 'POST',
     path: 'chat/announcements',
@@ -1263,6 +1406,7 @@ export const SendShoutout = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:manage:shoutouts',
+        actingUserParam: 'moderator_id',
     },
     method: 'POST',
     path: 'chat/shoutouts',
@@ -1275,6 +1419,10 @@ export const SendShoutout = defineEndpoint({
     responseBody: z.undefined().optional(),
     successCodes: [204],
     errorCodes: [400, 401, 403, 429],
+    rateLimit: {
+        limit: 1,
+        windowSeconds: 120,
+    },
 })
 
 export type SendShoutoutQuery = InferRequestQuery<typeof SendShoutout>
@@ -1283,6 +1431,7 @@ export const SendChatMessage = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'user:write:chat',
+        actingUserParam: 'sender_id',
     },
     method: 'POST',
     path: 'chat/messages',
@@ -1305,6 +1454,11 @@ export const SendChatMessage = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401, 403, 422],
+    statusErrorCodes: {
+        400: HelixErrorCode.INVALID_CHAT_MESSAGE,
+        403: HelixErrorCode.CHAT_NOT_ALLOWED,
+        422: HelixErrorCode.CHAT_MESSAGE_TOO_LARGE,
+    },
 })
 
 export type SendChatMessageRequestBody = InferRequestBody<typeof SendChatMessage>
@@ -1340,6 +1494,7 @@ export const UpdateUserChatColor = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'user:manage:chat_color',
+        actingUserParam: 'user_id',
     },
     method: 'PUT',
     path: 'chat/color',
@@ -1361,6 +1516,7 @@ export const CreateClip = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'clips:edit',
+        actingUserParam: null,
     },
     method: 'POST',
     path: 'clips',
@@ -1377,6 +1533,13 @@ export const CreateClip = defineEndpoint({
     }),
     successCodes: [202],
     errorCodes: [400, 401, 403, 404],
+    statusErrorCodes: {
+        403: HelixErrorCode.CLIPS_RESTRICTED,
+        404: HelixErrorCode.BROADCASTER_NOT_LIVE,
+    },
+    rateLimit: {
+        windowSeconds: 60,
+    },
 })
 
 export type CreateClipQuery = InferRequestQuery<typeof CreateClip>
@@ -1427,6 +1590,10 @@ export const GetClips = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401, 404],
+    pagination: {
+        cursorParam: 'after',
+        before: true,
+    },
 })
 
 export type GetClipsQuery = InferRequestQuery<typeof GetClips>
@@ -1571,6 +1738,9 @@ export const GetConduitShards = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401, 404],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetConduitShardsQuery = InferRequestQuery<typeof GetConduitShards>
@@ -1679,6 +1849,9 @@ export const GetDropsEntitlements = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetDropsEntitlementsQuery = InferRequestQuery<typeof GetDropsEntitlements>
@@ -1827,6 +2000,9 @@ export const GetExtensionLiveChannels = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetExtensionLiveChannelsQuery = InferRequestQuery<typeof GetExtensionLiveChannels>
@@ -2188,6 +2364,9 @@ export const CreateEventSubSubscription = defineEndpoint({
     }),
     successCodes: [202],
     errorCodes: [400, 401, 403, 409, 429],
+    statusErrorCodes: {
+        409: HelixErrorCode.SUBSCRIPTION_EXISTS,
+    },
 })
 
 export type CreateEventSubSubscriptionRequestBody = InferRequestBody<typeof CreateEventSubSubscription>
@@ -2250,6 +2429,9 @@ export const GetEventSubSubscriptions = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetEventSubSubscriptionsQuery = InferRequestQuery<typeof GetEventSubSubscriptions>
@@ -2283,6 +2465,10 @@ export const GetTopGames = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+        before: true,
+    },
 })
 
 export type GetTopGamesQuery = InferRequestQuery<typeof GetTopGames>
@@ -2322,6 +2508,7 @@ export const GetCreatorGoals = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:goals',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'GET',
     path: 'goals',
@@ -2355,6 +2542,7 @@ export const GetChannelGuestStarSettings = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:guest_star', 'channel:manage:guest_star', 'moderator:read:guest_star', 'moderator:manage:guest_star'] },
+        actingUserParam: 'moderator_id',
     },
     method: 'GET',
     path: 'guest_star/channel_settings',
@@ -2381,6 +2569,7 @@ export const UpdateChannelGuestStarSettings = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:guest_star',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'PUT',
     path: 'guest_star/channel_settings',
@@ -2405,6 +2594,7 @@ export const GetGuestStarSession = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:guest_star', 'channel:manage:guest_star', 'moderator:read:guest_star', 'moderator:manage:guest_star'] },
+        actingUserParam: 'moderator_id',
     },
     method: 'GET',
     path: 'guest_star/session',
@@ -2448,6 +2638,7 @@ export const CreateGuestStarSession = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:guest_star',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'POST',
     path: 'guest_star/session',
@@ -2472,6 +2663,7 @@ export const EndGuestStarSession = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:guest_star',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'DELETE',
     path: 'guest_star/session',
@@ -2491,6 +2683,7 @@ export const GetGuestStarInvites = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:guest_star', 'channel:manage:guest_star', 'moderator:read:guest_star', 'moderator:manage:guest_star'] },
+        actingUserParam: 'moderator_id',
     },
     method: 'GET',
     path: 'guest_star/invites',
@@ -2517,6 +2710,7 @@ export const SendGuestStarInvite = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:manage:guest_star', 'moderator:manage:guest_star'] },
+        actingUserParam: 'moderator_id',
     },
     method: 'POST',
     path: 'guest_star/invites',
@@ -2538,6 +2732,7 @@ export const DeleteGuestStarInvite = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:manage:guest_star', 'moderator:manage:guest_star'] },
+        actingUserParam: 'moderator_id',
     },
     method: 'DELETE',
     path: 'guest_star/invites',
@@ -2559,6 +2754,7 @@ export const AssignGuestStarSlot = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:manage:guest_star', 'moderator:manage:guest_star'] },
+        actingUserParam: 'moderator_id',
     },
     method: 'POST',
     path: 'guest_star/slot',
@@ -2581,6 +2777,7 @@ export const UpdateGuestStarSlot = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:manage:guest_star', 'moderator:manage:guest_star'] },
+        actingUserParam: 'moderator_id',
     },
     method: 'PATCH',
     path: 'guest_star/slot',
@@ -2603,6 +2800,7 @@ export const DeleteGuestStarSlot = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:manage:guest_star', 'moderator:manage:guest_star'] },
+        actingUserParam: 'moderator_id',
     },
     method: 'DELETE',
     path: 'guest_star/slot',
@@ -2626,6 +2824,7 @@ export const UpdateGuestStarSlotSettings = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:manage:guest_star', 'moderator:manage:guest_star'] },
+        actingUserParam: 'moderator_id',
     },
     method: 'PATCH',
     path: 'guest_star/slot_settings',
@@ -2655,6 +2854,7 @@ export const GetHypeTrainEvents = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:hype_train',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'GET',
     path: 'hypetrain/events',
@@ -2697,6 +2897,9 @@ export const GetHypeTrainEvents = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'cursor',
+    },
 })
 
 export type GetHypeTrainEventsQuery = InferRequestQuery<typeof GetHypeTrainEvents>
@@ -2706,6 +2909,7 @@ export const GetHypeTrainStatus = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:hype_train',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'GET',
     path: 'hypetrain',
@@ -2752,6 +2956,7 @@ export const CheckAutoModStatus = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'moderation:read',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'POST',
     path: 'moderation/enforcements/status',
@@ -2783,6 +2988,7 @@ export const ManageHeldAutoModMessages = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:manage:automod',
+        actingUserParam: 'user_id',
     },
     method: 'POST',
     path: 'moderation/automod/message',
@@ -2803,6 +3009,7 @@ export const GetAutoModSettings = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:read:automod_settings',
+        actingUserParam: 'moderator_id',
     },
     method: 'GET',
     path: 'moderation/automod/settings',
@@ -2837,6 +3044,7 @@ export const UpdateAutoModSettings = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:manage:automod_settings',
+        actingUserParam: 'moderator_id',
     },
     method: 'PUT',
     path: 'moderation/automod/settings',
@@ -2882,6 +3090,7 @@ export const GetBannedUsers = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: { any: ['moderation:read', 'moderator:read:banned_users'] },
+        actingUserParam: 'broadcaster_id',
     },
     method: 'GET',
     path: 'moderation/banned',
@@ -2911,6 +3120,10 @@ export const GetBannedUsers = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+        before: true,
+    },
 })
 
 export type GetBannedUsersQuery = InferRequestQuery<typeof GetBannedUsers>
@@ -2920,6 +3133,7 @@ export const BanUser = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:manage:banned_users',
+        actingUserParam: 'moderator_id',
     },
     method: 'POST',
     path: 'moderation/bans',
@@ -2945,6 +3159,14 @@ export const BanUser = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401, 403, 409, 429],
+    statusErrorCodes: {
+        400: HelixErrorCode.CANNOT_BAN_USER,
+        403: HelixErrorCode.NOT_A_MODERATOR,
+        409: HelixErrorCode.CONCURRENT_UPDATE,
+    },
+    rateLimit: {
+        windowSeconds: 60,
+    },
 })
 
 export type BanUserQuery = InferRequestQuery<typeof BanUser>
@@ -2955,6 +3177,7 @@ export const UnbanUser = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:manage:banned_users',
+        actingUserParam: 'moderator_id',
     },
     method: 'DELETE',
     path: 'moderation/bans',
@@ -2967,6 +3190,10 @@ export const UnbanUser = defineEndpoint({
     responseBody: z.undefined().optional(),
     successCodes: [204],
     errorCodes: [400, 401, 403],
+    statusErrorCodes: {
+        400: HelixErrorCode.USER_NOT_BANNED,
+        403: HelixErrorCode.NOT_A_MODERATOR,
+    },
 })
 
 export type UnbanUserQuery = InferRequestQuery<typeof UnbanUser>
@@ -2975,6 +3202,7 @@ export const GetUnbanRequests = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: { any: ['moderator:read:unban_requests', 'moderator:manage:unban_requests'] },
+        actingUserParam: 'moderator_id',
     },
     method: 'GET',
     path: 'moderation/unban_requests',
@@ -3008,6 +3236,9 @@ export const GetUnbanRequests = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401, 403],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetUnbanRequestsQuery = InferRequestQuery<typeof GetUnbanRequests>
@@ -3017,6 +3248,7 @@ export const ResolveUnbanRequests = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:manage:unban_requests',
+        actingUserParam: 'moderator_id',
     },
     method: 'PATCH',
     path: 'moderation/unban_requests',
@@ -3060,6 +3292,7 @@ export const GetBlockedTerms = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:read:blocked_terms',
+        actingUserParam: 'moderator_id',
     },
     method: 'GET',
     path: 'moderation/blocked_terms',
@@ -3086,6 +3319,9 @@ export const GetBlockedTerms = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetBlockedTermsQuery = InferRequestQuery<typeof GetBlockedTerms>
@@ -3095,6 +3331,7 @@ export const AddBlockedTerm = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:manage:blocked_terms',
+        actingUserParam: 'moderator_id',
     },
     method: 'POST',
     path: 'moderation/blocked_terms',
@@ -3128,6 +3365,7 @@ export const RemoveBlockedTerm = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:manage:blocked_terms',
+        actingUserParam: 'moderator_id',
     },
     method: 'DELETE',
     path: 'moderation/blocked_terms',
@@ -3148,6 +3386,7 @@ export const DeleteChatMessages = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:manage:chat_messages',
+        actingUserParam: 'moderator_id',
     },
     method: 'DELETE',
     path: 'moderation/chat',
@@ -3168,6 +3407,7 @@ export const GetModeratedChannels = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'user:read:moderated_channels',
+        actingUserParam: 'user_id',
     },
     method: 'GET',
     path: 'moderation/channels',
@@ -3189,6 +3429,9 @@ export const GetModeratedChannels = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetModeratedChannelsQuery = InferRequestQuery<typeof GetModeratedChannels>
@@ -3198,6 +3441,7 @@ export const GetModerators = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: { any: ['moderation:read', 'moderator:read:moderators'] },
+        actingUserParam: 'broadcaster_id',
     },
     method: 'GET',
     path: 'moderation/moderators',
@@ -3220,6 +3464,9 @@ export const GetModerators = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetModeratorsQuery = InferRequestQuery<typeof GetModerators>
@@ -3229,6 +3476,7 @@ export const AddChannelModerator = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:moderators',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'POST',
     path: 'moderation/moderators',
@@ -3238,8 +3486,13 @@ export const AddChannelModerator = defineEndpoint({
     }),
     requestBody: z.undefined().optional(),
     responseBody: z.undefined().optional(),
+    // Adding a user who already has the role fails without changing anything
+    idempotent: true,
     successCodes: [204],
     errorCodes: [400, 401, 403, 422, 429],
+    statusErrorCodes: {
+        422: HelixErrorCode.USER_IS_VIP,
+    },
 })
 
 export type AddChannelModeratorQuery = InferRequestQuery<typeof AddChannelModerator>
@@ -3248,6 +3501,7 @@ export const RemoveChannelModerator = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:moderators',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'DELETE',
     path: 'moderation/moderators',
@@ -3267,6 +3521,7 @@ export const GetVIPs = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: { any: ['channel:read:vips', 'moderator:read:vips'] },
+        actingUserParam: 'broadcaster_id',
     },
     method: 'GET',
     path: 'channels/vips',
@@ -3289,6 +3544,9 @@ export const GetVIPs = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetVIPsQuery = InferRequestQuery<typeof GetVIPs>
@@ -3298,6 +3556,7 @@ export const AddChannelVIP = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:vips',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'POST',
     path: 'channels/vips',
@@ -3307,8 +3566,14 @@ export const AddChannelVIP = defineEndpoint({
     }),
     requestBody: z.undefined().optional(),
     responseBody: z.undefined().optional(),
+    idempotent: true,
     successCodes: [204],
     errorCodes: [400, 401, 403, 409, 422, 425, 429],
+    statusErrorCodes: {
+        409: HelixErrorCode.VIP_SLOTS_FULL,
+        422: HelixErrorCode.USER_IS_MODERATOR,
+        425: HelixErrorCode.VIPS_NOT_UNLOCKED,
+    },
 })
 
 export type AddChannelVIPQuery = InferRequestQuery<typeof AddChannelVIP>
@@ -3317,6 +3582,7 @@ export const RemoveChannelVIP = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:vips',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'DELETE',
     path: 'channels/vips',
@@ -3328,6 +3594,10 @@ export const RemoveChannelVIP = defineEndpoint({
     responseBody: z.undefined().optional(),
     successCodes: [204],
     errorCodes: [400, 401, 403, 422, 425, 429],
+    statusErrorCodes: {
+        422: HelixErrorCode.USER_NOT_VIP,
+        425: HelixErrorCode.VIPS_NOT_UNLOCKED,
+    },
 })
 
 export type RemoveChannelVIPQuery = InferRequestQuery<typeof RemoveChannelVIP>
@@ -3336,6 +3606,7 @@ export const UpdateShieldModeStatus = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:manage:shield_mode',
+        actingUserParam: 'moderator_id',
     },
     method: 'PUT',
     path: 'moderation/shield_mode',
@@ -3367,6 +3638,7 @@ export const GetShieldModeStatus = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: { any: ['moderator:read:shield_mode', 'moderator:manage:shield_mode'] },
+        actingUserParam: 'moderator_id',
     },
     method: 'GET',
     path: 'moderation/shield_mode',
@@ -3395,6 +3667,7 @@ export const WarnChatUser = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'moderator:manage:warnings',
+        actingUserParam: 'moderator_id',
     },
     method: 'POST',
     path: 'moderation/warnings',
@@ -3416,6 +3689,10 @@ export const WarnChatUser = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401, 403, 409],
+    statusErrorCodes: {
+        403: HelixErrorCode.NOT_A_MODERATOR,
+        409: HelixErrorCode.CONCURRENT_UPDATE,
+    },
 })
 
 export type WarnChatUserQuery = InferRequestQuery<typeof WarnChatUser>
@@ -3428,6 +3705,7 @@ export const GetPolls = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:polls',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'GET',
     path: 'polls',
@@ -3467,6 +3745,9 @@ export const GetPolls = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetPollsQuery = InferRequestQuery<typeof GetPolls>
@@ -3476,6 +3757,7 @@ export const CreatePoll = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:polls',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'POST',
     path: 'polls',
@@ -3517,6 +3799,9 @@ export const CreatePoll = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    statusErrorCodes: {
+        400: HelixErrorCode.INVALID_POLL,
+    },
 })
 
 export type CreatePollRequestBody = InferRequestBody<typeof CreatePoll>
@@ -3526,6 +3811,7 @@ export const EndPoll = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:polls',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'PATCH',
     path: 'polls',
@@ -3572,6 +3858,7 @@ export const GetPredictions = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:predictions',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'GET',
     path: 'predictions',
@@ -3616,6 +3903,9 @@ export const GetPredictions = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetPredictionsQuery = InferRequestQuery<typeof GetPredictions>
@@ -3625,6 +3915,7 @@ export const CreatePrediction = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:predictions',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'POST',
     path: 'predictions',
@@ -3671,6 +3962,7 @@ export const EndPrediction = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:predictions',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'PATCH',
     path: 'predictions',
@@ -3723,6 +4015,7 @@ export const StartRaid = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:raids',
+        actingUserParam: 'from_broadcaster_id',
     },
     method: 'POST',
     path: 'raids',
@@ -3739,6 +4032,14 @@ export const StartRaid = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401, 403, 429],
+    statusErrorCodes: {
+        400: HelixErrorCode.CANNOT_RAID,
+        403: HelixErrorCode.NOT_THE_BROADCASTER,
+    },
+    rateLimit: {
+        limit: 10,
+        windowSeconds: 600,
+    },
 })
 
 export type StartRaidQuery = InferRequestQuery<typeof StartRaid>
@@ -3748,6 +4049,7 @@ export const CancelRaid = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:raids',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'DELETE',
     path: 'raids',
@@ -3808,6 +4110,9 @@ export const GetChannelStreamSchedule = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetChannelStreamScheduleQuery = InferRequestQuery<typeof GetChannelStreamSchedule>
@@ -3824,17 +4129,33 @@ export const GetChannelICalendar = defineEndpoint({
         broadcaster_id: z.string(),
     }),
     requestBody: z.undefined().optional(),
-    responseBody: z.undefined().optional(),
+    responseBody: z.string().transform(raw => {
+        try {
+            return {
+                raw,
+                calendar: parseICalendar(raw),
+            }
+        } catch (e) {
+            // The parser only sees the text, so the response context is added here to make malformed documents debuggable
+            if (e instanceof ICalendarParseError) {
+                throw new ICalendarParseError(`GetChannelICalendar returned an invalid iCalendar document: ${e.message}`, raw, 'GetChannelICalendar')
+            }
+            throw e
+        }
+    }),
+    responseType: 'text',
     successCodes: [200],
     errorCodes: [400, 401],
 })
 
 export type GetChannelICalendarQuery = InferRequestQuery<typeof GetChannelICalendar>
+export type GetChannelICalendarResponseBody = InferResponseBody<typeof GetChannelICalendar>
 
 export const UpdateChannelStreamSchedule = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:schedule',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'PATCH',
     path: 'schedule/settings',
@@ -3859,6 +4180,7 @@ export const CreateChannelStreamScheduleSegment = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:schedule',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'POST',
     path: 'schedule/segment',
@@ -3908,6 +4230,7 @@ export const UpdateChannelStreamScheduleSegment = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:schedule',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'PATCH',
     path: 'schedule/segment',
@@ -3958,6 +4281,7 @@ export const DeleteChannelStreamScheduleSegment = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:schedule',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'DELETE',
     path: 'schedule/segment',
@@ -4000,6 +4324,9 @@ export const SearchCategories = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type SearchCategoriesQuery = InferRequestQuery<typeof SearchCategories>
@@ -4039,6 +4366,9 @@ export const SearchChannels = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type SearchChannelsQuery = InferRequestQuery<typeof SearchChannels>
@@ -4050,6 +4380,7 @@ export const GetStreamKey = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:stream_key',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'GET',
     path: 'streams/key',
@@ -4110,6 +4441,10 @@ export const GetStreams = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+        before: true,
+    },
 })
 
 export type GetStreamsQuery = InferRequestQuery<typeof GetStreams>
@@ -4119,6 +4454,7 @@ export const GetFollowedStreams = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'user:read:follows',
+        actingUserParam: 'user_id',
     },
     method: 'GET',
     path: 'streams/followed',
@@ -4151,6 +4487,9 @@ export const GetFollowedStreams = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetFollowedStreamsQuery = InferRequestQuery<typeof GetFollowedStreams>
@@ -4160,6 +4499,7 @@ export const CreateStreamMarker = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:broadcast',
+        actingUserParam: 'user_id',
     },
     method: 'POST',
     path: 'streams/markers',
@@ -4187,6 +4527,7 @@ export const GetStreamMarkers = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'user:read:broadcast',
+        actingUserParam: 'user_id',
     },
     method: 'GET',
     path: 'streams/markers',
@@ -4220,6 +4561,10 @@ export const GetStreamMarkers = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+        before: true,
+    },
 })
 
 export type GetStreamMarkersQuery = InferRequestQuery<typeof GetStreamMarkers>
@@ -4231,6 +4576,7 @@ export const GetBroadcasterSubscriptions = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:read:subscriptions',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'GET',
     path: 'subscriptions',
@@ -4265,6 +4611,10 @@ export const GetBroadcasterSubscriptions = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+        before: true,
+    },
 })
 
 export type GetBroadcasterSubscriptionsQuery = InferRequestQuery<typeof GetBroadcasterSubscriptions>
@@ -4274,6 +4624,7 @@ export const CheckUserSubscription = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'user:read:subscriptions',
+        actingUserParam: 'user_id',
     },
     method: 'GET',
     path: 'subscriptions/user',
@@ -4329,6 +4680,9 @@ export const GetAllStreamTags = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetAllStreamTagsQuery = InferRequestQuery<typeof GetAllStreamTags>
@@ -4473,6 +4827,7 @@ export const UpdateUser = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'user:edit',
+        actingUserParam: null,
     },
     method: 'PUT',
     path: 'users',
@@ -4529,6 +4884,7 @@ export const GetUserBlockList = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'user:read:blocked_users',
+        actingUserParam: 'broadcaster_id',
     },
     method: 'GET',
     path: 'users/blocks',
@@ -4550,6 +4906,9 @@ export const GetUserBlockList = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+    },
 })
 
 export type GetUserBlockListQuery = InferRequestQuery<typeof GetUserBlockList>
@@ -4559,6 +4918,7 @@ export const BlockUser = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'user:manage:blocked_users',
+        actingUserParam: null,
     },
     method: 'PUT',
     path: 'users/blocks',
@@ -4579,6 +4939,7 @@ export const UnblockUser = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'user:manage:blocked_users',
+        actingUserParam: null,
     },
     method: 'DELETE',
     path: 'users/blocks',
@@ -4597,6 +4958,7 @@ export const GetUserExtensions = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'user:read:broadcast',
+        actingUserParam: null,
     },
     method: 'GET',
     path: 'users/extensions/list',
@@ -4621,6 +4983,7 @@ export const GetUserActiveExtensions = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'user:read:broadcast',
+        actingUserParam: 'user_id',
     },
     method: 'GET',
     path: 'users/extensions',
@@ -4663,6 +5026,7 @@ export const UpdateUserExtensions = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'user:edit:broadcast',
+        actingUserParam: null,
     },
     method: 'PUT',
     path: 'users/extensions',
@@ -4770,6 +5134,10 @@ export const GetVideos = defineEndpoint({
     }),
     successCodes: [200],
     errorCodes: [400, 401],
+    pagination: {
+        cursorParam: 'after',
+        before: true,
+    },
 })
 
 export type GetVideosQuery = InferRequestQuery<typeof GetVideos>
@@ -4779,6 +5147,7 @@ export const DeleteVideos = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'channel:manage:videos',
+        actingUserParam: null,
     },
     method: 'DELETE',
     path: 'videos',
@@ -4802,6 +5171,7 @@ export const SendWhisper = defineEndpoint({
     auth: {
         userAccessToken: true,
         userScopes: 'user:manage:whispers',
+        actingUserParam: 'from_user_id',
     },
     method: 'POST',
     path: 'whispers',
@@ -4815,6 +5185,15 @@ export const SendWhisper = defineEndpoint({
     responseBody: z.undefined().optional(),
     successCodes: [204],
     errorCodes: [400, 401, 403, 404, 429],
+    statusErrorCodes: {
+        400: HelixErrorCode.INVALID_WHISPER,
+        403: HelixErrorCode.WHISPER_NOT_ALLOWED,
+        404: HelixErrorCode.WHISPER_RECIPIENT_NOT_FOUND,
+    },
+    rateLimit: {
+        limit: 100,
+        windowSeconds: 60,
+    },
 })
 
 export type SendWhisperQuery = InferRequestQuery<typeof SendWhisper>
@@ -1,5 +1,5 @@
-import { DefaultUserAccessTokenProvider, DeviceCodeGrantFlowStrategy } from "./auth/auth.js"
-import type { UserAccessTokenScope } from "./auth/types.js"
+import { DefaultUserAccessTokenProvider, DeviceCodeDeniedError, DeviceCodeExpiredError, DeviceCodeGrantFlowStrategy } from "./auth/auth.js"
+import type { UserAccessToken, UserAccessTokenScope } from "./auth/types.js"
 import { DefaultWebSocketClient } from "./eventsub/websockets.js"
 import { DefaultHelixClient, DefaultHelixHttpClient, DefaultHelixRateLimitManager } from "./helix/helix.js"
 import { ConsoleLogger } from "./utils/logger.js"
@@ -32,10 +32,18 @@ async function main() {
     console.log('Code:', dcr.userCode)
     console.log('This code will expire in', dcr.expiresIn, 'seconds.')
 
-    const initialUserToken = await deviceCodeStrategy.pollForToken(dcr)
-    if (!initialUserToken) {
-        console.error('Device code has expired. Please restart the authorization process.')
-        return
+    let initialUserToken: UserAccessToken
+    try {
+        initialUserToken = await deviceCodeStrategy.pollForToken(dcr, {
+            signal,
+            onProgress: ({ remainingSeconds }) => console.log('Waiting for authorization,', remainingSeconds, 'seconds left.'),
+        })
+    } catch (e) {
+        if (e instanceof DeviceCodeExpiredError || e instanceof DeviceCodeDeniedError) {
+            console.error(`${e.message}. Please restart the authorization process.`)
+            return
+        }
+        throw e
     }
 
     const userAccessToken = new DefaultUserAccessTokenProvider(deviceCodeStrategy, initialUserToken)
@@ -6,3 +6,27 @@ export function safeJsonParse(json: string): unknown {
         return undefined
     }
 }
+
+/**
+ * Serializes a value as JSON with object keys sorted, so that equivalent objects produce the same string
+ */
+export function stableStringify(value: unknown): string {
+    return JSON.stringify(value, (_, v: unknown) => {
+        if (v && typeof v === 'object' && !Array.isArray(v)) {
+            return Object.fromEntries(Object.entries(v).sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0))
+        }
+        return v
+    }) ?? ''
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+    let binary = ''
+    for (const byte of bytes) {
+        binary += String.fromCharCode(byte)
+    }
+    return btoa(binary)
+}
+
+export function decodeBase64(base64: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(atob(base64), char => char.charCodeAt(0))
+}
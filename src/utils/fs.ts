@@ -0,0 +1,56 @@
+/**
+ * The subset of Node's `fs/promises` module used by file-backed stores. Pass the module itself, e.g. `import * as fs from 'node:fs/promises'`, or any other implementation with the same behavior.
+ */
+export interface FileSystem {
+    readFile(path: string, encoding: 'utf8'): Promise<string>
+    writeFile(path: string, data: string, encoding: 'utf8'): Promise<void>
+    mkdir(path: string, options: { recursive: true }): Promise<unknown>
+    rename(oldPath: string, newPath: string): Promise<void>
+    link(existingPath: string, newPath: string): Promise<void>
+    rm(path: string, options: { force: true }): Promise<void>
+}
+
+export function isFileNotFoundError(error: unknown): boolean {
+    return error instanceof Error && 'code' in error && error.code === 'ENOENT'
+}
+
+export function isFileExistsError(error: unknown): boolean {
+    return error instanceof Error && 'code' in error && error.code === 'EEXIST'
+}
+
+export function joinPath(directory: string, fileName: string): string {
+    return directory.endsWith('/') || directory.endsWith('\\') ? `${directory}${fileName}` : `${directory}/${fileName}`
+}
+
+/**
+ * Writes a file by writing a temporary file next to it and renaming it into place, so that concurrent readers never see a partially written file
+ */
+export async function writeFileAtomic(fileSystem: FileSystem, path: string, data: string): Promise<void> {
+    const tempPath = `${path}.${crypto.randomUUID()}.tmp`
+    try {
+        await fileSystem.writeFile(tempPath, data, 'utf8')
+        await fileSystem.rename(tempPath, path)
+    } catch (e) {
+        await fileSystem.rm(tempPath, { force: true })
+        throw e
+    }
+}
+
+/**
+ * Creates a file unless one already exists at the path, and returns whether it did. The file is written next to the path and hard-linked into place, which fails if the path exists, so other processes never see it partially written.
+ */
+export async function createFileExclusive(fileSystem: FileSystem, path: string, data: string): Promise<boolean> {
+    const tempPath = `${path}.${crypto.randomUUID()}.tmp`
+    try {
+        await fileSystem.writeFile(tempPath, data, 'utf8')
+        await fileSystem.link(tempPath, path)
+        return true
+    } catch (e) {
+        if (isFileExistsError(e)) {
+            return false
+        }
+        throw e
+    } finally {
+        await fileSystem.rm(tempPath, { force: true })
+    }
+}
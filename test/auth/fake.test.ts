@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { AuthorizationCodeGrantFlowStrategy, ClientCredentialsFlowStrategy, DefaultAppAccessTokenProvider, DefaultUserAccessTokenProvider, DeviceCodeDeniedError, DeviceCodeGrantFlowStrategy, ReauthorizationRequiredError, TokenUserMismatchError } from '../../src/auth/auth.js'
+import { createFakeOAuthState, FakeOAuthHttpClient } from '../../src/auth/fake.js'
+
+const CLIENT_ID = 'client'
+const CLIENT_SECRET = 'secret'
+const PUBLIC_CLIENT_ID = 'public-client'
+const REDIRECT_URI = 'http://localhost:3000/callback'
+
+function createFake(options: { deviceCodeInterval?: number } = {}) {
+    return new FakeOAuthHttpClient({
+        ...options,
+        state: createFakeOAuthState({
+            clients: [
+                { clientID: CLIENT_ID, clientSecret: CLIENT_SECRET, redirectURIs: [REDIRECT_URI] },
+                { clientID: PUBLIC_CLIENT_ID, clientSecret: null, redirectURIs: [] },
+            ],
+            users: [{ id: '1', login: 'alice' }, { id: '2', login: 'bob' }],
+        }),
+    })
+}
+
+describe('FakeOAuthHttpClient', () => {
+    it('refreshes an expiring token through the user access token provider', async () => {
+        const fake = createFake()
+        const strategy = new AuthorizationCodeGrantFlowStrategy(CLIENT_ID, CLIENT_SECRET, REDIRECT_URI, fake)
+        const token = fake.issueUserAccessToken({ clientID: CLIENT_ID, userID: '1', scopes: ['user:read:chat'], expiresIn: 60 })
+        const provider = new DefaultUserAccessTokenProvider(strategy, token)
+
+        const refreshed = await provider.getAccessToken()
+
+        expect(refreshed.accessToken).not.toBe(token.accessToken)
+        expect(refreshed.scopes).toEqual(['user:read:chat'])
+        expect(fake.requests.filter(r => r.request.path === '/oauth2/token')).toHaveLength(1)
+    })
+
+    it('requires reauthorization once the user revoked the application', async () => {
+        const fake = createFake()
+        const strategy = new AuthorizationCodeGrantFlowStrategy(CLIENT_ID, CLIENT_SECRET, REDIRECT_URI, fake)
+        const token = fake.issueUserAccessToken({ clientID: CLIENT_ID, userID: '1', scopes: [] })
+        const provider = new DefaultUserAccessTokenProvider(strategy, token, { maxRefreshRetries: 0 })
+
+        fake.revokeUserTokens('1')
+
+        await expect(provider.getAccessToken()).rejects.toBeInstanceOf(ReauthorizationRequiredError)
+    })
+
+    it('exchanges the code from an authorization redirect', async () => {
+        const fake = createFake()
+        const strategy = new AuthorizationCodeGrantFlowStrategy(CLIENT_ID, CLIENT_SECRET, REDIRECT_URI, fake)
+        const { url, state } = strategy.generateAuthorizationUrl({ scopes: ['moderator:manage:banned_users'] })
+
+        const redirect = new URL(fake.authorize(url, { userID: '2' }))
+        const result = strategy.tryRetrieveAuthorizationCodeAtRedirectUri(redirect.searchParams, state)
+        const token = await strategy.exchangeAuthorizationCodeForToken(result!.code)
+
+        expect(token.scopes).toEqual(['moderator:manage:banned_users'])
+        expect(fake.state.tokens.find(t => t.accessToken === token.accessToken)?.userID).toBe('2')
+    })
+
+    it('issues a token for an approved device code and rejects a denied one', async () => {
+        const fake = createFake({ deviceCodeInterval: 0 })
+        const strategy = new DeviceCodeGrantFlowStrategy(PUBLIC_CLIENT_ID, null, false, fake)
+
+        const approved = await strategy.requestDeviceCode(['user:read:chat'])
+        fake.approveDeviceCode(approved.userCode, '1')
+        const token = await strategy.pollForToken(approved)
+        expect(token.scopes).toEqual(['user:read:chat'])
+
+        const denied = await strategy.requestDeviceCode(['user:read:chat'])
+        fake.denyDeviceCode(denied.userCode)
+        await expect(strategy.pollForToken(denied)).rejects.toBeInstanceOf(DeviceCodeDeniedError)
+    })
+
+    it("rejects setting another user's token on a user access token provider", async () => {
+        const fake = createFake()
+        const strategy = new AuthorizationCodeGrantFlowStrategy(CLIENT_ID, CLIENT_SECRET, REDIRECT_URI, fake)
+        const provider = new DefaultUserAccessTokenProvider(strategy, fake.issueUserAccessToken({ clientID: CLIENT_ID, userID: '1', scopes: [] }))
+        await provider.getAccessToken()
+        const replaced: string[] = []
+        provider.events.on('replaced', token => replaced.push(token.accessToken))
+
+        await expect(provider.setAccessToken(fake.issueUserAccessToken({ clientID: CLIENT_ID, userID: '2', scopes: [] }))).rejects.toBeInstanceOf(TokenUserMismatchError)
+
+        const sameUserToken = fake.issueUserAccessToken({ clientID: CLIENT_ID, userID: '1', scopes: ['user:read:chat'] })
+        await provider.setAccessToken(sameUserToken)
+        expect(replaced).toEqual([sameUserToken.accessToken])
+    })
+
+    it('requests an app access token through the client credentials grant', async () => {
+        const fake = createFake()
+        const provider = new DefaultAppAccessTokenProvider(new ClientCredentialsFlowStrategy(CLIENT_ID, CLIENT_SECRET, fake), null)
+
+        const token = await provider.getAccessToken()
+
+        expect(fake.state.tokens.find(t => t.accessToken === token.accessToken)).toMatchObject({ clientID: CLIENT_ID, userID: null })
+    })
+})
@@ -0,0 +1,81 @@
+import * as http from 'node:http'
+import * as net from 'node:net'
+import { describe, expect, it } from 'vitest'
+import { AuthorizationCodeGrantFlowStrategy } from '../../src/auth/auth.js'
+import { AuthorizationTimeoutError, LoopbackAuthorizationServer } from '../../src/auth/loopback.js'
+import type { UserAccessToken } from '../../src/auth/types.js'
+
+/**
+ * Exchanges codes locally instead of calling Twitch's token endpoint
+ */
+class TestStrategy extends AuthorizationCodeGrantFlowStrategy {
+    readonly exchangedCodes: string[] = []
+
+    override async exchangeAuthorizationCodeForToken(code: string): Promise<UserAccessToken> {
+        this.exchangedCodes.push(code)
+        return { accessToken: `token-for-${code}`, expiry: Date.now() + 60 * 60 * 1000, scopes: ['user:read:chat'], refreshToken: null }
+    }
+}
+
+async function getFreePort(): Promise<number> {
+    const server = net.createServer()
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as net.AddressInfo
+    await new Promise(resolve => server.close(resolve))
+    return port
+}
+
+async function createLoopbackServer() {
+    const redirectURI = `http://127.0.0.1:${await getFreePort()}/callback`
+    const strategy = new TestStrategy('client', 'secret', redirectURI)
+    return { strategy, redirectURI, server: new LoopbackAuthorizationServer({ http }, strategy) }
+}
+
+/**
+ * Plays the part of Twitch redirecting the browser back after the user answered the consent screen
+ */
+function getRedirectUrl(redirectURI: string, authorizationUrl: string, params: Record<string, string>): string {
+    const url = new URL(redirectURI)
+    url.search = new URLSearchParams({ ...params, state: new URL(authorizationUrl).searchParams.get('state')! }).toString()
+    return url.toString()
+}
+
+describe('LoopbackAuthorizationServer', () => {
+    it('exchanges the code from the redirect and ignores requests without the state', async () => {
+        const { strategy, redirectURI, server } = await createLoopbackServer()
+        let forgedRequest: Promise<Response> | null = null
+        let redirect: Promise<Response> | null = null
+
+        const token = await server.authorize({
+            scopes: ['user:read:chat'],
+            openUrl: async url => {
+                forgedRequest = fetch(`${redirectURI}?code=planted`)
+                await forgedRequest
+                redirect = fetch(getRedirectUrl(redirectURI, url, { code: 'code' }))
+            },
+        })
+
+        expect((await forgedRequest!).status).toBe(400)
+        expect((await redirect!).status).toBe(200)
+        expect(strategy.exchangedCodes).toEqual(['code'])
+        expect(token.accessToken).toBe('token-for-code')
+        await expect(fetch(redirectURI)).rejects.toThrow()
+    })
+
+    it('fails when the user denies the authorization', async () => {
+        const { redirectURI, server } = await createLoopbackServer()
+
+        await expect(server.authorize({
+            scopes: [],
+            openUrl: async url => {
+                await fetch(getRedirectUrl(redirectURI, url, { error: 'access_denied', error_description: 'The user denied you access' }))
+            },
+        })).rejects.toThrow(/access_denied/)
+    })
+
+    it('times out when no redirect arrives', async () => {
+        const { server } = await createLoopbackServer()
+
+        await expect(server.authorize({ scopes: [], openUrl: () => {}, timeoutMs: 50 })).rejects.toBeInstanceOf(AuthorizationTimeoutError)
+    })
+})
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import type { OAuthHttpClient, OAuthHttpRequestArgs } from '../../src/auth/http.js'
+import { fetchOpenIDUserInfo, OpenIDRequestError, OpenIDTokenVerificationError, StaticOpenIDKeySource, verifyIdToken, type OpenIDJsonWebKey } from '../../src/auth/oidc.js'
+
+const CLIENT_ID = 'client'
+const ISSUER = 'https://id.twitch.tv/oauth2'
+const ALGORITHM = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }
+
+async function generateKey(kid: string | undefined) {
+    const keyPair = await crypto.subtle.generateKey({ ...ALGORITHM, modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]) }, true, ['sign', 'verify'])
+    const jwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey)
+    const publicKey: OpenIDJsonWebKey = { kty: jwk.kty!, n: jwk.n!, e: jwk.e!, alg: 'RS256', use: 'sig', ...(kid !== undefined ? { kid } : {}) }
+    return { privateKey: keyPair.privateKey, publicKey }
+}
+
+function encodeSegment(value: unknown): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url')
+}
+
+async function signIdToken(privateKey: CryptoKey, kid: string | undefined, claims: Record<string, unknown> = {}): Promise<string> {
+    const now = Math.floor(Date.now() / 1000)
+    const header = encodeSegment({ alg: 'RS256', typ: 'JWT', ...(kid !== undefined ? { kid } : {}) })
+    const payload = encodeSegment({ iss: ISSUER, sub: '1', aud: CLIENT_ID, exp: now + 900, iat: now, nonce: 'nonce', ...claims })
+    const signature = await crypto.subtle.sign(ALGORITHM, privateKey, new TextEncoder().encode(`${header}.${payload}`))
+    return `${header}.${payload}.${Buffer.from(signature).toString('base64url')}`
+}
+
+async function getFailureReason(promise: Promise<unknown>): Promise<string | null> {
+    try {
+        await promise
+        return null
+    } catch (e) {
+        if (e instanceof OpenIDTokenVerificationError) {
+            return e.reason
+        }
+        throw e
+    }
+}
+
+describe('verifyIdToken', () => {
+    it('returns the claims of a valid ID token', async () => {
+        const { privateKey, publicKey } = await generateKey('a')
+        const idToken = await signIdToken(privateKey, 'a', { preferred_username: 'alice' })
+
+        const claims = await verifyIdToken(idToken, { clientID: CLIENT_ID, nonce: 'nonce', keySource: new StaticOpenIDKeySource([publicKey]) })
+
+        expect(claims).toMatchObject({ sub: '1', preferred_username: 'alice' })
+    })
+
+    it('rejects tokens signed by another key, for another client or issuer, expired or with another nonce', async () => {
+        const { privateKey, publicKey } = await generateKey('a')
+        const other = await generateKey('a')
+        const keySource = new StaticOpenIDKeySource([publicKey])
+        const verify = (idToken: string, nonce = 'nonce') => getFailureReason(verifyIdToken(idToken, { clientID: CLIENT_ID, nonce, keySource }))
+
+        expect(await verify(await signIdToken(other.privateKey, 'a'))).toBe('invalid_signature')
+        expect(await verify(await signIdToken(privateKey, 'a', { aud: 'other' }))).toBe('invalid_audience')
+        expect(await verify(await signIdToken(privateKey, 'a', { iss: 'https://example.com' }))).toBe('invalid_issuer')
+        expect(await verify(await signIdToken(privateKey, 'a', { exp: Math.floor(Date.now() / 1000) - 3600 }))).toBe('expired')
+        expect(await verify(await signIdToken(privateKey, 'a'), 'other')).toBe('invalid_nonce')
+        expect(await verify('not a jwt')).toBe('malformed')
+    })
+
+    it('only accepts tokens without a key ID when the key set has a single key', async () => {
+        const { privateKey, publicKey } = await generateKey(undefined)
+        const other = await generateKey('b')
+        const idToken = await signIdToken(privateKey, undefined)
+
+        await expect(verifyIdToken(idToken, { clientID: CLIENT_ID, nonce: 'nonce', keySource: new StaticOpenIDKeySource([publicKey]) })).resolves.toMatchObject({ sub: '1' })
+        expect(await getFailureReason(verifyIdToken(idToken, { clientID: CLIENT_ID, nonce: 'nonce', keySource: new StaticOpenIDKeySource([other.publicKey, publicKey]) }))).toBe('unknown_key')
+    })
+
+    it('expects tokens to be issued by the server of the given HTTP client', async () => {
+        const { privateKey, publicKey } = await generateKey('a')
+        const httpClient: OAuthHttpClient = {
+            baseUrl: 'http://localhost:8080',
+            fetch: async () => ({ status: 200, statusText: 'OK', body: { keys: [publicKey] } }),
+        }
+        const idToken = await signIdToken(privateKey, 'a', { iss: 'http://localhost:8080/oauth2' })
+
+        await expect(verifyIdToken(idToken, { clientID: CLIENT_ID, nonce: 'nonce', httpClient })).resolves.toMatchObject({ sub: '1' })
+        expect(await getFailureReason(verifyIdToken(await signIdToken(privateKey, 'a'), { clientID: CLIENT_ID, nonce: 'nonce', httpClient }))).toBe('invalid_issuer')
+    })
+})
+
+describe('fetchOpenIDUserInfo', () => {
+    it('requests the claims through the given HTTP client', async () => {
+        const requests: OAuthHttpRequestArgs[] = []
+        const claims = { iss: 'http://localhost:8080/oauth2', sub: '1', aud: CLIENT_ID, exp: 0, iat: 0, preferred_username: 'alice' }
+        const httpClient: OAuthHttpClient = {
+            baseUrl: 'http://localhost:8080',
+            fetch: async request => {
+                requests.push(request)
+                return request.headers?.['Authorization'] === 'Bearer token'
+                    ? { status: 200, statusText: 'OK', body: claims }
+                    : { status: 401, statusText: 'Unauthorized', body: { status: 401, message: 'invalid access token' } }
+            },
+        }
+
+        expect(await fetchOpenIDUserInfo('token', httpClient)).toEqual(claims)
+        expect(requests[0]).toMatchObject({ method: 'GET', path: '/oauth2/userinfo' })
+        await expect(fetchOpenIDUserInfo('other', httpClient)).rejects.toBeInstanceOf(OpenIDRequestError)
+    })
+})
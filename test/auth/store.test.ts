@@ -0,0 +1,85 @@
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { CorruptTokenFileError, EncryptedFileTokenStore, FileTokenStore } from '../../src/auth/store.js'
+import { UserAccessTokenSchema, type UserAccessToken } from '../../src/auth/types.js'
+
+const TOKEN: UserAccessToken = {
+    accessToken: 'access',
+    expiry: 1700000000000,
+    scopes: ['user:read:chat'],
+    refreshToken: 'refresh',
+    userID: '1',
+}
+
+let directory: string
+
+beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'token-store-'))
+})
+
+afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+})
+
+describe('FileTokenStore', () => {
+    it('reads back the tokens it writes', async () => {
+        const store = new FileTokenStore({ fileSystem: fs }, directory, UserAccessTokenSchema)
+
+        await store.write('user/1', TOKEN)
+
+        expect(await store.read('user/1')).toEqual(TOKEN)
+        expect(await store.read('user/2')).toBeNull()
+        await store.delete('user/1')
+        expect(await store.read('user/1')).toBeNull()
+    })
+
+    it('rejects files that do not hold a token', async () => {
+        const store = new FileTokenStore({ fileSystem: fs }, directory, UserAccessTokenSchema)
+        await fs.writeFile(path.join(directory, '1.json'), '{"accessToken": "access"}', 'utf8')
+
+        await expect(store.read('1')).rejects.toBeInstanceOf(CorruptTokenFileError)
+    })
+
+    it('lets one holder at a time hold the lock on a key', async () => {
+        const store = new FileTokenStore({ fileSystem: fs }, directory, UserAccessTokenSchema)
+        let holders = 0
+        let maxHolders = 0
+
+        await Promise.all(Array.from({ length: 4 }, async () => {
+            const release = await store.lock('1')
+            maxHolders = Math.max(maxHolders, ++holders)
+            await new Promise(resolve => setTimeout(resolve, 20))
+            holders--
+            await release()
+        }))
+
+        expect(maxHolders).toBe(1)
+        expect(await fs.readdir(directory)).toEqual([])
+    })
+
+    it('breaks a lease whose holder died without releasing it', async () => {
+        const store = new FileTokenStore({ fileSystem: fs }, directory, UserAccessTokenSchema)
+        await fs.writeFile(path.join(directory, '1.lock'), `dead ${Date.now() - 1000}`, 'utf8')
+
+        const release = await store.lock('1')
+        await release()
+
+        expect(await fs.readdir(directory)).toEqual([])
+    })
+})
+
+describe('EncryptedFileTokenStore', () => {
+    it('reads back the tokens it writes and rejects files encrypted with another key', async () => {
+        const generateKey = () => crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+        const store = new EncryptedFileTokenStore({ fileSystem: fs }, directory, UserAccessTokenSchema, await generateKey())
+        const otherStore = new EncryptedFileTokenStore({ fileSystem: fs }, directory, UserAccessTokenSchema, await generateKey())
+
+        await store.write('1', TOKEN)
+
+        expect(await fs.readFile(path.join(directory, '1.json'), 'utf8')).not.toContain('access')
+        expect(await store.read('1')).toEqual(TOKEN)
+        await expect(otherStore.read('1')).rejects.toBeInstanceOf(CorruptTokenFileError)
+    })
+})
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest'
+import type { UserAccessTokenProvider } from '../../src/auth/auth.js'
+import type { UserAccessToken } from '../../src/auth/types.js'
+import { createFakeHelixState, FakeHelixHttpClient, type FakeHelixUser } from '../../src/helix/fake.js'
+import { DefaultHelixClient, DefaultHelixRateLimitManager, HelixApiError, HelixErrorCode } from '../../src/helix/helix.js'
+import type { Logger } from '../../src/utils/logger.js'
+
+const CLIENT_ID = 'client'
+
+const silentLogger: Logger = {
+    debug() {},
+    info() {},
+    warn() {},
+    error() {},
+}
+
+/**
+ * Provides a fixed token and counts refreshes, standing in for a provider that talks to Twitch's OAuth server
+ */
+class StaticUserAccessTokenProvider implements UserAccessTokenProvider {
+    refreshCount = 0
+
+    constructor(private accessToken: UserAccessToken) {
+
+    }
+
+    getClientID() {
+        return CLIENT_ID
+    }
+
+    async getAccessToken() {
+        return this.accessToken
+    }
+
+    canRefreshAccessToken() {
+        return true
+    }
+
+    async refreshAccessToken() {
+        this.refreshCount++
+        return this.accessToken
+    }
+
+    async validateAccessToken() {
+        return true
+    }
+
+    async revoke() {
+
+    }
+
+    async setAccessToken(accessToken: UserAccessToken) {
+        this.accessToken = accessToken
+    }
+}
+
+function createUser(id: string): FakeHelixUser {
+    return {
+        id,
+        login: `user${id}`,
+        display_name: `User${id}`,
+        type: '',
+        broadcaster_type: '',
+        description: '',
+        profile_image_url: '',
+        offline_image_url: '',
+        view_count: 0,
+        created_at: '2020-01-01T00:00:00Z',
+    }
+}
+
+function createClient() {
+    const httpClient = new FakeHelixHttpClient({
+        state: createFakeHelixState({
+            users: ['1', '2', '3', '4', '5', '6'].map(createUser),
+            tokenUserIDs: { token: '1' },
+        }),
+    })
+    const helixClient = new DefaultHelixClient({
+        logger: silentLogger,
+        httpClient,
+        rateLimitManager: new DefaultHelixRateLimitManager(),
+    })
+    const userAccessToken = new StaticUserAccessTokenProvider({
+        accessToken: 'token',
+        expiry: Date.now() + 60 * 60 * 1000,
+        scopes: ['moderator:manage:banned_users', 'moderation:read'],
+        refreshToken: null,
+        clientID: CLIENT_ID,
+        userID: '1',
+    })
+    return { httpClient, helixClient, userAccessToken }
+}
+
+describe('FakeHelixHttpClient', () => {
+    it("returns the token's user when no users are named", async () => {
+        const { helixClient, userAccessToken } = createClient()
+
+        const { data } = await helixClient.getUsers({ userAccessToken, query: {} })
+
+        expect(data.map(u => u.id)).toEqual(['1'])
+    })
+
+    it('bans users and maps the documented failure to its error code', async () => {
+        const { httpClient, helixClient, userAccessToken } = createClient()
+        const ban = () => helixClient.banUser({ userAccessToken, query: { broadcaster_id: '1', moderator_id: '1' }, body: { data: { user_id: '2' } } })
+
+        await ban()
+        const error = await ban().catch((e: unknown) => e)
+
+        expect(httpClient.state.bans).toHaveLength(1)
+        expect(error).toBeInstanceOf(HelixApiError)
+        expect(error).toMatchObject({ status: 400, code: HelixErrorCode.CANNOT_BAN_USER })
+    })
+
+    it('pages through banned users', async () => {
+        const { helixClient, userAccessToken } = createClient()
+        for (const user_id of ['2', '3', '4', '5', '6']) {
+            await helixClient.banUser({ userAccessToken, query: { broadcaster_id: '1', moderator_id: '1' }, body: { data: { user_id } } })
+        }
+
+        const paginator = helixClient.paginateGetBannedUsers({ userAccessToken, query: { broadcaster_id: '1', first: 2 } })
+        const pageSizes: number[] = []
+        for await (const page of paginator.pages()) {
+            pageSizes.push(page.data.length)
+        }
+
+        expect(pageSizes).toEqual([2, 2, 1])
+        expect((await paginator.toArray()).map(b => b.user_id)).toEqual(['2', '3', '4', '5', '6'])
+    })
+
+    it('refreshes the token and retries once after an injected 401', async () => {
+        const { httpClient, helixClient, userAccessToken } = createClient()
+        httpClient.injectResponse({ status: 401, endpoint: 'GetUsers' })
+
+        await helixClient.getUsers({ userAccessToken, query: { id: '2' } })
+
+        expect(userAccessToken.refreshCount).toBe(1)
+        expect(httpClient.requests.map(r => r.response.status)).toEqual([401, 200])
+    })
+})
@@ -0,0 +1,75 @@
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { FakeHelixHttpClient } from '../../src/helix/fake.js'
+import { FileHelixFixtureStore, HelixFixtureNotFoundError, RecordReplayHelixHttpClient } from '../../src/helix/fixtures.js'
+import type { HelixHttpClient, HelixHttpRequestArgs } from '../../src/helix/helix.js'
+
+const ACCESS_TOKEN = 'secret-access-token'
+const CLIENT_ID = 'secret-client-id'
+
+const GET_USER: HelixHttpRequestArgs = {
+    method: 'GET',
+    url: 'https://api.twitch.tv/helix/users',
+    headers: { 'Authorization': `Bearer ${ACCESS_TOKEN}`, 'Client-ID': CLIENT_ID },
+    query: { id: '1' },
+}
+
+const offlineClient: HelixHttpClient = {
+    fetch: () => Promise.reject(new Error('Replays must not send requests')),
+}
+
+let directory: string
+
+beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'helix-fixtures-'))
+})
+
+afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+})
+
+describe('RecordReplayHelixHttpClient', () => {
+    it('replays recorded responses in order with the credentials redacted', async () => {
+        const fake = new FakeHelixHttpClient()
+        fake.setHandler('GetUsers', ({ accessToken }) => ({
+            data: [{
+                id: '1',
+                login: 'alice',
+                display_name: 'Alice',
+                type: '',
+                broadcaster_type: '',
+                description: `Signed in with ${accessToken}`,
+                profile_image_url: '',
+                offline_image_url: '',
+                view_count: 0,
+                created_at: '2020-01-01T00:00:00Z',
+            }],
+        }))
+        fake.injectResponse({ status: 503 })
+        const fixtureStore = new FileHelixFixtureStore({ fileSystem: fs }, directory)
+        const recorder = new RecordReplayHelixHttpClient({ httpClient: fake, fixtureStore }, 'record')
+
+        expect((await recorder.fetch(GET_USER)).status).toBe(503)
+        expect((await recorder.fetch(GET_USER)).status).toBe(200)
+
+        const [fileName] = await fs.readdir(directory)
+        const fixtureText = await fs.readFile(path.join(directory, fileName!), 'utf8')
+        expect(fixtureText).not.toContain(ACCESS_TOKEN)
+        expect(fixtureText).not.toContain(CLIENT_ID)
+
+        const player = new RecordReplayHelixHttpClient({ httpClient: offlineClient, fixtureStore }, 'replay')
+        const statuses = [await player.fetch(GET_USER), await player.fetch(GET_USER), await player.fetch(GET_USER)].map(r => r.status)
+        expect(statuses).toEqual([503, 200, 200])
+        expect(await player.fetch({ ...GET_USER, query: { id: ['1'] } })).toMatchObject({
+            body: { data: [{ description: 'Signed in with [REDACTED]' }] },
+        })
+    })
+
+    it('fails requests that were never recorded', async () => {
+        const player = new RecordReplayHelixHttpClient({ httpClient: offlineClient, fixtureStore: new FileHelixFixtureStore({ fileSystem: fs }, directory) }, 'replay')
+
+        await expect(player.fetch(GET_USER)).rejects.toBeInstanceOf(HelixFixtureNotFoundError)
+    })
+})